@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "limitPrice" DOUBLE PRECISION;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "minAmountOut" DOUBLE PRECISION,
+ADD COLUMN     "quotedPrice" DOUBLE PRECISION,
+ADD COLUMN     "slippageBps" INTEGER;
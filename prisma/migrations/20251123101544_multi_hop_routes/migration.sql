@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "route" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderFill" (
+    "id" SERIAL NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "dex" TEXT NOT NULL,
+    "tokenIn" TEXT NOT NULL,
+    "tokenOut" TEXT NOT NULL,
+    "amountIn" DOUBLE PRECISION NOT NULL,
+    "executedPrice" DOUBLE PRECISION NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderFill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderFill_orderId_idx" ON "OrderFill"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderFill" ADD CONSTRAINT "OrderFill_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "averagePrice" DOUBLE PRECISION,
+ADD COLUMN     "split" BOOLEAN NOT NULL DEFAULT false;
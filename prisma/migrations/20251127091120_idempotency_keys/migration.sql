@@ -0,0 +1,12 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[idempotencyKey]` on the table `Orders` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "requestHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Orders_idempotencyKey_key" ON "Orders"("idempotencyKey");
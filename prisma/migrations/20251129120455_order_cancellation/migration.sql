@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "cancelRequested" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "OrderFill_orderId_idx";
+
+-- AlterTable
+ALTER TABLE "OrderEvent" ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "OrderFill" ADD COLUMN     "step" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "routePlan" JSONB;
+
+-- events written before the outbox existed were already published
+UPDATE "OrderEvent" SET "publishedAt" = "createdAt";
+
+-- number existing fills in the order they were recorded
+UPDATE "OrderFill" AS f SET "step" = s."step"
+FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "orderId" ORDER BY "id") - 1 AS "step" FROM "OrderFill") AS s
+WHERE f."id" = s."id";
+
+ALTER TABLE "OrderFill" ALTER COLUMN "step" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "OrderEvent_publishedAt_idx" ON "OrderEvent"("publishedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderFill_orderId_step_key" ON "OrderFill"("orderId", "step");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "OrderEvent" ADD COLUMN     "data" JSONB,
+ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'status_changed';
+
+-- events carrying an error were failures
+UPDATE "OrderEvent" SET "type" = 'failed' WHERE "error" IS NOT NULL;
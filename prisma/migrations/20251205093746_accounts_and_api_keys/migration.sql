@@ -0,0 +1,56 @@
+/*
+  Warnings:
+
+  - Orders created before accounts existed are assigned to a `legacy` account that has no API keys.
+
+*/
+-- DropIndex
+DROP INDEX "Orders_idempotencyKey_key";
+
+-- CreateTable
+CREATE TABLE "Account" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Account_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "accountId" TEXT;
+
+INSERT INTO "Account" ("id", "name") VALUES ('legacy', 'legacy');
+
+UPDATE "Orders" SET "accountId" = 'legacy';
+
+ALTER TABLE "Orders" ALTER COLUMN "accountId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_accountId_idx" ON "ApiKey"("accountId");
+
+-- CreateIndex
+CREATE INDEX "Orders_accountId_createdAt_idx" ON "Orders"("accountId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Orders_accountId_idempotencyKey_key" ON "Orders"("accountId", "idempotencyKey");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Orders" ADD CONSTRAINT "Orders_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
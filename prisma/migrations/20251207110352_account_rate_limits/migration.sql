@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "maxInFlightOrders" INTEGER,
+ADD COLUMN     "orderBurst" INTEGER,
+ADD COLUMN     "ordersPerSecond" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Orders_accountId_status_idx" ON "Orders"("accountId", "status");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "Balance" (
+    "accountId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "available" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reserved" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Balance_pkey" PRIMARY KEY ("accountId","token")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "bucket" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "orderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_accountId_token_idx" ON "LedgerEntry"("accountId", "token");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_orderId_idx" ON "LedgerEntry"("orderId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "LedgerEntry"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "Balance" ADD CONSTRAINT "Balance_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
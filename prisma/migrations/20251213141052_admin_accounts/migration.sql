@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "isAdmin" BOOLEAN NOT NULL DEFAULT false;
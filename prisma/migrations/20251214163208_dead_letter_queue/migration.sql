@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "DeadLetter" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeadLetter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AdminAuditLog" (
+    "id" SERIAL NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeadLetter_status_createdAt_idx" ON "DeadLetter"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeadLetter_orderId_idx" ON "DeadLetter"("orderId");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_targetId_idx" ON "AdminAuditLog"("targetId");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_createdAt_idx" ON "AdminAuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DeadLetter" ADD CONSTRAINT "DeadLetter_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AdminAuditLog" ADD CONSTRAINT "AdminAuditLog_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "correlationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Orders_correlationId_idx" ON "Orders"("correlationId");
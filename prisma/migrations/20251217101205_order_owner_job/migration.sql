@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Orders" ADD COLUMN     "ownerJobId" TEXT;
+
+-- orders in flight were most likely routed by the job queued under the order id, any other job holding one
+-- backs off and the order is reconciled once it is stuck
+UPDATE "Orders" SET "ownerJobId" = "id" WHERE "status" IN ('routing', 'building', 'submitted');
@@ -0,0 +1,74 @@
+/**
+ * api key authentication, every request and websocket upgrade must carry a key of an account.
+ * keys are random and only their sha256 is stored, so a leaked database does not leak keys.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import type { Account, PrismaClient } from "@prisma/client";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // set by the auth hook, every order lookup is scoped to it
+    accountId: string;
+    account: Account;
+  }
+  interface FastifyContextConfig {
+    // probes and metric scrapes carry no api key
+    public?: boolean;
+  }
+}
+
+const KEY_PREFIX = "edx_";
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+export const generateApiKey = () => {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, KEY_PREFIX.length + 6) };
+};
+
+// browsers cannot set headers on websockets or EventSource, so those may pass the key as ?apiKey=.
+// fastify logs the url of every request, see redactApiKey
+const readApiKey = (request: FastifyRequest): string | undefined => {
+  const header = request.headers["x-api-key"];
+  if (typeof header === "string") return header;
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length);
+  const { apiKey } = request.query as { apiKey?: string };
+  return typeof apiKey === "string" ? apiKey : undefined;
+};
+
+// the url with the value of ?apiKey= replaced, for logging
+export const redactApiKey = (url: string) => {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1) return url;
+  const query = new URLSearchParams(url.slice(queryStart + 1));
+  if (!query.has("apiKey")) return url;
+  query.set("apiKey", "redacted");
+  return `${url.slice(0, queryStart)}?${query}`;
+};
+
+export const authenticate = (prisma: PrismaClient) => async (request: FastifyRequest, reply: FastifyReply) => {
+  if (request.routeOptions.config.public) return;
+  const key = readApiKey(request);
+  if (!key) {
+    reply.status(401);
+    return reply.send({ status: "error", message: "Missing API key" });
+  }
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) }, include: { account: true } });
+  if (!apiKey || apiKey.revokedAt) {
+    reply.status(401);
+    return reply.send({ status: "error", message: "Invalid API key" });
+  }
+  request.accountId = apiKey.accountId;
+  request.account = apiKey.account;
+};
+
+// for admin routes, runs after authenticate so the account is known
+export const requireAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (!request.account.isAdmin) {
+    reply.status(403);
+    return reply.send({ status: "error", message: "Admin access required" });
+  }
+};
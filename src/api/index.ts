@@ -1,27 +1,293 @@
-import Fastify from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
 import websocket from "@fastify/websocket";
-import { RedisManager } from "./redisManager.js";
-import { RequestSwapSchema } from "../lib/schema.js";
-import { PrismaClient } from "@prisma/client";
+import { accountTopic, pairTopic, RedisManager } from "./redisManager.js";
+import { authenticate, redactApiKey, requireAdmin } from "./auth.js";
+import {
+  CloseDeadLetterSchema,
+  DeadLetterQuerySchema,
+  DepositSchema,
+  LedgerQuerySchema,
+  ListOrdersQuerySchema,
+  LongPollQuerySchema,
+  QuoteRequestSchema,
+  RequestSwapSchema,
+} from "../lib/schema.js";
+import { deposit, reserve } from "../lib/ledger.js";
+import { InFlightLimitError, InsufficientBalanceError, InvalidQuoteError } from "../lib/errors.js";
+import { isQuoteExpired, issueQuote, verifyQuote, type SignedQuote } from "../lib/quotes.js";
+import { Prisma, PrismaClient, type Account, type Orders } from "@prisma/client";
+import { createHash, randomUUID } from "crypto";
+import { CONFIG } from "../config/config.js";
+import type { OrderData } from "../lib/types.js";
+import { aggregateFills, toOrderUpdate, toPair, toSnapshotMessage } from "../lib/utils.js";
+import { ClientMessageSchema, PROTOCOL_VERSION, type ServerMessage, type Topic } from "../lib/protocol.js";
+import type { WebSocket } from "ws";
+import { PollSubscriber, SseSubscriber, WebSocketSubscriber } from "./subscribers.js";
+import { ACTIVE_STATUSES, isTerminal, OrderStateMachine, type OrderStatus } from "../lib/orderState.js";
+import { registerOrderStatusGauge, registry, websocketConnections } from "../lib/metrics.js";
+import { checkDependencies } from "../lib/health.js";
+import { logger } from "../lib/logger.js";
 
 
-const app = Fastify({logger: true});
+// a client may pick the correlation id with X-Correlation-Id, it is logged on every line of the request as
+// `correlationId` and an order placed by the request keeps it, so the engine logs the order under it too
+const CORRELATION_ID = /^[\w.:-]{1,128}$/;
+// fastify's own request serializer, except that a key passed as ?apiKey= never reaches the logs
+const apiLogger = logger.child(
+  {},
+  {
+    serializers: {
+      req: (req: FastifyRequest) => ({
+        method: req.method,
+        url: redactApiKey(req.url),
+        host: req.host,
+        remoteAddress: req.ip,
+        remotePort: req.socket?.remotePort,
+      }),
+    },
+  }
+);
+const app = Fastify({
+  loggerInstance: apiLogger,
+  requestIdLogLabel: "correlationId",
+  genReqId: (req) => {
+    const header = req.headers["x-correlation-id"];
+    return typeof header === "string" && CORRELATION_ID.test(header) ? header : randomUUID();
+  },
+});
 await app.register(websocket);
 const redisManager = new RedisManager();
 const prisma = new PrismaClient();
+const orderState = new OrderStateMachine(prisma, (update) => redisManager.PublishOrderUpdate(update));
+app.addHook("onRequest", async (request, reply) => {
+  reply.header("X-Correlation-Id", request.id);
+});
+// every route, websocket upgrades included, needs an api key
+app.addHook("preValidation", authenticate(prisma));
+registerOrderStatusGauge(prisma);
 
+app.get("/metrics", { config: { public: true } }, async (request, reply) => {
+  reply.header("Content-Type", registry.contentType);
+  return await registry.metrics();
+});
 
-app.get("/ws/:orderId", { websocket: true }, (connection, req) => {
+// liveness, postgres and redis answer
+app.get("/healthz", { config: { public: true } }, async (request, reply) => {
+  const { healthy, checks } = await checkDependencies(prisma, () => redisManager.Ping());
+  reply.status(healthy ? 200 : 503);
+  return { status: healthy ? "ok" : "error", checks };
+});
+
+// readiness also needs the order updates subscription, without it streams would stay silent.
+// a draining api answers 503 to every request, this one included
+app.get("/readyz", { config: { public: true } }, async (request, reply) => {
+  const { healthy, checks } = await checkDependencies(prisma, () => redisManager.Ping());
+  const subscribed = redisManager.IsSubscribed();
+  const ready = healthy && subscribed;
+  reply.status(ready ? 200 : 503);
+  return { status: ready ? "ok" : "error", checks: { ...checks, updates: subscribed ? "ok" : "not subscribed" } };
+});
+
+
+/**
+ * one read so the snapshot and the history agree on the last event, null if the account has no such order.
+ * a client resuming after `afterSeq` already has the order, it only gets the events it missed
+ */
+const loadOrderMessages = async (orderId: string, accountId: string, afterSeq?: number): Promise<ServerMessage[] | null> => {
+  const order = await prisma.orders.findUnique({
+    where: { id: orderId, accountId },
+    include: { events: { where: { id: { gt: afterSeq ?? 0 } }, orderBy: { id: "asc" } } },
+  });
+  if (!order) return null;
+  const updates = order.events.map((event) => toOrderUpdate({ ...event, order }));
+  if (afterSeq !== undefined) return updates;
+  const lastSeq = order.events.length ? order.events[order.events.length - 1]!.id : 0;
+  return [toSnapshotMessage(order, lastSeq), ...updates];
+};
+
+// key of a live-only topic in RedisManager, order topics are subscribed with their history instead
+const topicKey = (accountId: string, topic: Exclude<Topic, { kind: "order" }>) =>
+  topic.kind === "account" ? accountTopic(accountId) : pairTopic(accountId, toPair(topic.tokenIn, topic.tokenOut));
+
+// pings the client every HEARTBEAT_INTERVAL and drops it if the previous ping went unanswered
+const keepAlive = (socket: WebSocket) => {
+  let alive = true;
+  socket.on("pong", () => {
+    alive = true;
+  });
+  const timer = setInterval(() => {
+    if (!alive) {
+      logger.info("WebSocket client missed a heartbeat, terminating");
+      socket.terminate();
+      return;
+    }
+    alive = false;
+    socket.ping();
+  }, CONFIG.STREAMING.HEARTBEAT_INTERVAL);
+  socket.on("close", () => clearInterval(timer));
+};
+
+app.get("/ws/:orderId", { websocket: true }, async (connection, req) => {
   const {orderId} = req.params as { orderId: string };
-  console.log(`WebSocket connection established for order ${orderId}`);
-  connection.send(`Connected to order ${orderId} updates`);
-  redisManager.SubscribeToOrderUpdates(orderId, connection);
+  req.log.info({ orderId }, "WebSocket connection established");
+  const subscriber = new WebSocketSubscriber(connection);
+  keepAlive(connection);
+  websocketConnections.inc({ endpoint: "order" });
   connection.on("close", () => {
-    console.log(`WebSocket connection closed for order ${orderId}`);
-    redisManager.UnsubscribeFromOrderUpdates(orderId, connection);
+    req.log.info({ orderId }, "WebSocket connection closed");
+    websocketConnections.dec({ endpoint: "order" });
+    redisManager.RemoveClient(subscriber);
   });
+  const found = await redisManager.SubscribeToOrderUpdates(orderId, subscriber, () =>
+    loadOrderMessages(orderId, req.accountId)
+  );
+  if (!found) {
+    connection.close(4404, "Order not found");
+  }
 });
 
+// one connection for any number of orders, pairs and the whole account, driven by subscribe/unsubscribe messages
+app.get("/ws", { websocket: true }, (connection, req) => {
+  req.log.info("Multiplexed WebSocket connection established");
+  const subscriber = new WebSocketSubscriber(connection);
+  keepAlive(connection);
+  websocketConnections.inc({ endpoint: "multiplexed" });
+  connection.on("close", () => {
+    req.log.info("Multiplexed WebSocket connection closed");
+    websocketConnections.dec({ endpoint: "multiplexed" });
+    redisManager.RemoveClient(subscriber);
+  });
+
+  connection.on("message", async (raw: Buffer) => {
+    let parsed;
+    try {
+      parsed = ClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+    } catch (err) {
+      parsed = null;
+    }
+    if (!parsed?.success) {
+      subscriber.send({ version: PROTOCOL_VERSION, type: "error", message: "Invalid message" });
+      return;
+    }
+
+    const message = parsed.data;
+    if (message.type === "ping") {
+      subscriber.send({ version: PROTOCOL_VERSION, type: "pong" });
+      return;
+    }
+
+    const { topic } = message;
+    if (message.type === "unsubscribe") {
+      if (topic.kind === "order") {
+        redisManager.UnsubscribeFromOrderUpdates(topic.orderId, subscriber);
+      } else {
+        redisManager.UnsubscribeFromTopic(topicKey(req.accountId, topic), subscriber);
+      }
+      subscriber.send({ version: PROTOCOL_VERSION, type: "unsubscribed", topic });
+      return;
+    }
+
+    subscriber.send({ version: PROTOCOL_VERSION, type: "subscribed", topic });
+    if (topic.kind !== "order") {
+      redisManager.SubscribeToTopic(topicKey(req.accountId, topic), subscriber);
+      return;
+    }
+    const found = await redisManager.SubscribeToOrderUpdates(topic.orderId, subscriber, () =>
+      loadOrderMessages(topic.orderId, req.accountId)
+    );
+    if (!found) {
+      subscriber.send({ version: PROTOCOL_VERSION, type: "error", message: "Order not found", topic });
+    }
+  });
+});
+
+// a repeated Idempotency-Key gets the original order back, unless the payload changed
+const replayIdempotentOrder = async (accountId: string, idempotencyKey: string, requestHash: string, reply: FastifyReply) => {
+  const existing = await prisma.orders.findUnique({ where: { accountId_idempotencyKey: { accountId, idempotencyKey } } });
+  if (!existing) return null;
+  if (existing.requestHash !== requestHash) {
+    reply.status(409);
+    return { status: "error", message: "Idempotency-Key was already used with a different request body" };
+  }
+  return {
+    status: "order received",
+    orderId: existing.id,
+    ...(existing.correlationId && { correlationId: existing.correlationId }),
+  };
+};
+
+/**
+ * orders and quotes each have a token bucket per account with the account's limits, every quote queues
+ * an engine job that asks every dex so it is limited like an order. answers 429 when the bucket is empty
+ */
+const takeRateLimitToken = async (bucket: "execute-order" | "quote", account: Account, reply: FastifyReply) => {
+  const retryAfter = await redisManager.TakeRateLimitToken(
+    `ratelimit:${bucket}:${account.id}`,
+    account.orderBurst ?? CONFIG.RATE_LIMIT.ORDER_BURST,
+    account.ordersPerSecond ?? CONFIG.RATE_LIMIT.ORDERS_PER_SECOND
+  );
+  if (retryAfter <= 0) return null;
+  reply.status(429).header("Retry-After", Math.ceil(retryAfter / 1000));
+  return { status: "error", message: `Too many ${bucket === "quote" ? "quotes" : "orders"}, slow down` };
+};
+
+// prices the order without placing it, the quote id can be passed to /execute-order until it expires
+app.post("/quote", async (request, reply) => {
+  const body = QuoteRequestSchema.safeParse(request.body);
+  if (!body.success) {
+    reply.status(400);
+    return { status: "error", message: "Invalid quote request", errors: body.error };
+  }
+  const limited = await takeRateLimitToken("quote", request.account, reply);
+  if (limited) return limited;
+  let result;
+  try {
+    result = await redisManager.RequestQuote(body.data);
+  } catch (err) {
+    request.log.error({ err }, "Error getting quote");
+    reply.status(503);
+    return { status: "error", message: "Could not get a quote, try again" };
+  }
+  const { quote, quoteId } = issueQuote(request.accountId, body.data, result.route);
+  return {
+    status: "ok",
+    quoteId,
+    expiresAt: quote.expiresAt,
+    tokenIn: quote.tokenIn,
+    tokenOut: quote.tokenOut,
+    amount: quote.amount,
+    route: result.route,
+    quotes: result.quotes,
+  };
+});
+
+// the quote must be ours and issued for this account and order, expiry is checked by the caller
+const checkQuote = (quoteId: string, accountId: string, order: { tokenIn: string; tokenOut: string; amount: number }) => {
+  const quote = verifyQuote(quoteId);
+  if (
+    quote.accountId !== accountId ||
+    quote.tokenIn !== order.tokenIn ||
+    quote.tokenOut !== order.tokenOut ||
+    quote.amount !== order.amount
+  ) {
+    throw new InvalidQuoteError("quote was issued for a different order");
+  }
+  return quote;
+};
+
+
+/**
+ * runs in the transaction that creates the order. the account row stays locked until it commits,
+ * so concurrent orders of one account are counted one after another and cannot pass the cap together
+ */
+const checkInFlightOrders = async (tx: Prisma.TransactionClient, account: Account) => {
+  await tx.$queryRaw`SELECT "id" FROM "Account" WHERE "id" = ${account.id} FOR UPDATE`;
+  const inFlight = await tx.orders.count({ where: { accountId: account.id, status: { in: ACTIVE_STATUSES } } });
+  if (inFlight >= (account.maxInFlightOrders ?? CONFIG.RATE_LIMIT.MAX_IN_FLIGHT_ORDERS)) {
+    throw new InFlightLimitError(inFlight);
+  }
+};
+
 app.post("/execute-order", async (request, reply) => {
   try {
     //validate order data
@@ -30,47 +296,621 @@ app.post("/execute-order", async (request, reply) => {
       reply.status(400);
       return { status: "error", message: "Invalid order data", errors: order.error};
     }
+    const idempotencyKey = request.headers["idempotency-key"];
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== "string" || idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+      reply.status(400);
+      return { status: "error", message: "Idempotency-Key must be a non-empty string of at most 255 characters"};
+    }
+    const requestHash = idempotencyKey ? createHash("sha256").update(JSON.stringify(order.data)).digest("hex") : null;
+    if (idempotencyKey && requestHash) {
+      const replayed = await replayIdempotentOrder(request.accountId, idempotencyKey, requestHash, reply);
+      if (replayed) return replayed;
+    }
     if ( order.data.tokenIn === order.data.tokenOut ) {
       reply.status(400);
       return { status: "error", message: "tokenIn and tokenOut cannot be the same"};
     }
+    let quote: SignedQuote | undefined;
+    if (order.data.quoteId) {
+      try {
+        quote = checkQuote(order.data.quoteId, request.accountId, order.data);
+      } catch (err) {
+        if (!(err instanceof InvalidQuoteError)) throw err;
+        reply.status(400);
+        return { status: "error", message: err.message };
+      }
+      if (isQuoteExpired(quote)) {
+        reply.status(410);
+        return { status: "error", message: "Quote expired, request a new one" };
+      }
+    }
+    // a quoted order may not fill more than TOLERANCE_BPS below its quote, on top of the client's own minimum
+    const minAmountOuts = [
+      ...(order.data.minAmountOut !== undefined ? [order.data.minAmountOut] : []),
+      ...(quote ? [quote.route.amountOut * (1 - CONFIG.QUOTES.TOLERANCE_BPS / 10000)] : []),
+    ];
+    const minAmountOut = minAmountOuts.length ? Math.max(...minAmountOuts) : undefined;
+    const expiresAt = order.data.orderType === "limit"
+      ? new Date(order.data.expiresAt ?? Date.now() + CONFIG.LIMIT_ORDER.DEFAULT_TTL)
+      : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      reply.status(400);
+      return { status: "error", message: "expiresAt must be in the future"};
+    }
+    // limits are taken after validation and the replay, so neither a rejected request nor retrying an order
+    // that already exists uses up the bucket
+    const limited = await takeRateLimitToken("execute-order", request.account, reply);
+    if (limited) return limited;
     // create a order entry
-    const orderId = await prisma.orders.create({
-      data: {
-        orderType: "swap",
-        tokenIn: order.data.tokenIn,
-        tokenOut: order.data.tokenOut,
-        amount: order.data.amount,
-        status: "pending",
-      },
-    });
+    let orderId: Orders;
+    try {
+      // the funds are held in the same transaction, an order that cannot be paid for is never created
+      orderId = await prisma.$transaction(async (tx) => {
+        await checkInFlightOrders(tx, request.account);
+        const created = await tx.orders.create({
+          data: {
+            accountId: request.accountId,
+            idempotencyKey: idempotencyKey ?? null,
+            requestHash,
+            orderType: order.data.orderType,
+            tokenIn: order.data.tokenIn,
+            tokenOut: order.data.tokenOut,
+            amount: order.data.amount,
+            status: "pending",
+            limitPrice: order.data.limitPrice ?? null,
+            expiresAt,
+            slippageBps: order.data.slippageBps ?? null,
+            minAmountOut: minAmountOut ?? null,
+            split: order.data.split ?? false,
+            freshQuote: order.data.freshQuote ?? false,
+            quoteId: quote?.id ?? null,
+            correlationId: request.id,
+            events: {
+              // nobody can be subscribed yet, the websocket replays it from history
+              create: { status: "pending", message: "order received", publishedAt: new Date() },
+            },
+          },
+        });
+        await reserve(tx, request.accountId, created.id, order.data.tokenIn, order.data.amount);
+        return created;
+      });
+    } catch (err) {
+      if (err instanceof InsufficientBalanceError) {
+        reply.status(422);
+        return { status: "error", message: err.message };
+      }
+      if (err instanceof InFlightLimitError) {
+        reply.status(429).header("Retry-After", CONFIG.RATE_LIMIT.IN_FLIGHT_RETRY_AFTER);
+        return { status: "error", message: `Account already has ${err.inFlight} unfinished orders` };
+      }
+      // a concurrent request with the same key won the unique constraint
+      if (idempotencyKey && requestHash && err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        return await replayIdempotentOrder(request.accountId, idempotencyKey, requestHash, reply);
+      }
+      throw err;
+    }
 
     //sense order to engine via redis
-    console.log(`Received order execution request:`, order.data);
-    const Neworder = {
+    request.log.info({ orderId: orderId.id, order: order.data }, "order received");
+    const Neworder: OrderData = {
       orderId: orderId.id,
+      accountId: request.accountId,
       tokenIn: order.data.tokenIn,
       tokenOut: order.data.tokenOut,
       amount: order.data.amount,
+      orderType: order.data.orderType,
+      ...(order.data.limitPrice !== undefined && { limitPrice: order.data.limitPrice }),
+      ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+      ...(order.data.slippageBps !== undefined && { slippageBps: order.data.slippageBps }),
+      ...(minAmountOut !== undefined && { minAmountOut }),
+      ...(order.data.split && { split: true }),
+      ...(order.data.freshQuote && { freshQuote: true }),
+      ...(quote && { quote: { id: quote.id, route: quote.route, expiresAt: quote.expiresAt } }),
+      correlationId: request.id,
+    }
+    try {
+      await redisManager.addOrderExecutionJob(Neworder);
+    } catch (err) {
+      // no engine will pick the order up, it is failed so its funds are released. the Idempotency-Key is
+      // freed so retrying the request places it again instead of replaying the failed order
+      request.log.error({ err, orderId: orderId.id }, "Error adding job to queue");
+      await orderState.transition(
+        orderId.id,
+        "pending",
+        "failed",
+        { message: "order could not be queued", error: (err as Error).message },
+        { data: { errorMessage: (err as Error).message, idempotencyKey: null } }
+      );
+      reply.status(503);
+      return { status: "error", message: "Order could not be queued, try again", orderId: orderId.id };
+    }
+    return { status: "order received", orderId: orderId.id, correlationId: request.id };
+  } catch (err) {
+    request.log.error({ err }, "Error processing order execution request");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+app.get("/orders/:id", async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const order = await prisma.orders.findUnique({ where: { id, accountId: request.accountId }, include: { fills: true } });
+    if (!order) {
+      reply.status(404);
+      return { status: "error", message: "Order not found" };
+    }
+    return { status: "ok", order };
+  } catch (err) {
+    request.log.error({ err }, "Error fetching order");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// for clients behind proxies that drop websockets, a reconnecting EventSource resumes with Last-Event-ID
+app.get("/orders/:id/events", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const lastEventId = request.headers["last-event-id"] as string | undefined;
+  const afterSeq = lastEventId !== undefined ? Number(lastEventId) : undefined;
+  if (afterSeq !== undefined && !Number.isInteger(afterSeq)) {
+    reply.status(400);
+    return { status: "error", message: "Last-Event-ID must be an event seq" };
+  }
+  try {
+    const order = await prisma.orders.findUnique({ where: { id, accountId: request.accountId }, select: { id: true } });
+    if (!order) {
+      reply.status(404);
+      return { status: "error", message: "Order not found" };
+    }
+  } catch (err) {
+    request.log.error({ err }, "Error opening order event stream");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+
+  reply.hijack();
+  reply.raw.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  const subscriber = new SseSubscriber(reply.raw);
+  const timer = setInterval(() => subscriber.heartbeat(), CONFIG.STREAMING.HEARTBEAT_INTERVAL);
+  reply.raw.on("close", () => {
+    clearInterval(timer);
+    redisManager.RemoveClient(subscriber);
+  });
+  await redisManager.SubscribeToOrderUpdates(id, subscriber, () =>
+    loadOrderMessages(id, request.accountId, afterSeq)
+  );
+});
+
+// long-poll fallback, answers once the status changes after `after` or the timeout runs out
+app.get("/orders/:id/events/poll", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const query = LongPollQuerySchema.safeParse(request.query);
+  if (!query.success) {
+    reply.status(400);
+    return { status: "error", message: "Invalid query", errors: query.error };
+  }
+  const { after, timeout } = query.data;
+  const subscriber = new PollSubscriber(after);
+  try {
+    const found = await redisManager.SubscribeToOrderUpdates(id, subscriber, () =>
+      loadOrderMessages(id, request.accountId, after)
+    );
+    if (!found) {
+      reply.status(404);
+      return { status: "error", message: "Order not found" };
+    }
+    // a finished order will not change again, no point holding the request open
+    const order = await prisma.orders.findUnique({ where: { id }, select: { status: true } });
+    if (order && !isTerminal(order.status)) {
+      const aborted = new Promise<void>((resolve) => reply.raw.on("close", () => resolve()));
+      await subscriber.wait(timeout, aborted);
+    }
+    const updates = subscriber.updates;
+    return { status: "ok", updates, lastSeq: updates.length ? updates[updates.length - 1]!.seq : after };
+  } catch (err) {
+    request.log.error({ err }, "Error polling order events");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  } finally {
+    redisManager.RemoveClient(subscriber);
+  }
+});
+
+// marks the dead letter resolved and writes the audit entry, inside the transition that acts on the order.
+// an admin replaying or closing it and its owner cancelling the order all go through here
+const resolveDeadLetter = async (
+  tx: Prisma.TransactionClient,
+  deadLetterId: string,
+  status: "replayed" | "closed",
+  accountId: string,
+  details: Prisma.InputJsonObject
+) => {
+  await tx.deadLetter.update({
+    where: { id: deadLetterId },
+    data: { status, resolvedAt: new Date(), resolvedBy: accountId },
+  });
+  await tx.adminAuditLog.create({
+    data: { accountId, action: `dead_letter.${status === "replayed" ? "replay" : "close"}`, targetId: deadLetterId, details },
+  });
+};
+
+app.post("/orders/:id/cancel", async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const order = await prisma.orders.findUnique({ where: { id, accountId: request.accountId } });
+    if (!order) {
+      reply.status(404);
+      return { status: "error", message: "Order not found" };
+    }
+    if (isTerminal(order.status)) {
+      reply.status(409);
+      return { status: "error", message: `Order is already ${order.status}` };
     }
-    await redisManager.addOrderExecutionJob(Neworder);
-    return { status: "order received", orderId: orderId.id };
+    if (order.status === "submitted") {
+      reply.status(409);
+      return { status: "error", message: "Order was already submitted to the network and can no longer be cancelled" };
+    }
+
+    // a dead-lettered order that never reached the network can be given up by its owner, the hold is released
+    if (order.status === "dead_lettered") {
+      const deadLetter = await prisma.deadLetter.findFirst({ where: { orderId: id, status: "open" } });
+      if (deadLetter?.fromStatus === "submitted") {
+        reply.status(409);
+        return { status: "error", message: "Order was already submitted to the network and can no longer be cancelled" };
+      }
+      const cancelled = await orderState.transition(
+        id,
+        "dead_lettered",
+        "cancelled",
+        { message: "order cancelled" },
+        {
+          data: { cancelRequested: true },
+          ...(deadLetter && {
+            also: (tx: Prisma.TransactionClient) =>
+              resolveDeadLetter(tx, deadLetter.id, "closed", request.accountId, {
+                orderId: id,
+                closedAs: "cancelled",
+                reason: "cancelled by the order's owner",
+              }),
+          }),
+        }
+      );
+      if (cancelled) {
+        if (deadLetter) {
+          request.log.info({ audit: true, accountId: request.accountId, deadLetterId: deadLetter.id, orderId: id, closedAs: "cancelled" }, "dead letter closed");
+        }
+        return { status: "cancelled", orderId: id };
+      }
+      reply.status(409);
+      return { status: "error", message: "Order can no longer be cancelled" };
+    }
+
+    // still queued or parked for its limit price, nothing is executing it so cancel right away
+    const removed = order.status === "pending" && (await redisManager.RemoveWaitingJob(id));
+    if (removed || order.status === "watching") {
+      const cancelled = await orderState.transition(
+        id,
+        order.status as OrderStatus,
+        "cancelled",
+        { message: "order cancelled" },
+        { data: { cancelRequested: true } }
+      );
+      if (cancelled) {
+        return { status: "cancelled", orderId: id };
+      }
+    }
+
+    // the engine has it, it stops at the next stage boundary before submission
+    const { count } = await prisma.orders.updateMany({
+      where: { id, status: { in: ["pending", "watching", "routing", "building"] } },
+      data: { cancelRequested: true },
+    });
+    if (count === 0) {
+      reply.status(409);
+      return { status: "error", message: "Order can no longer be cancelled" };
+    }
+    reply.status(202);
+    return { status: "cancellation requested", orderId: id };
   } catch (err) {
-    console.error("Error processing order execution request:", err);
+    request.log.error({ err }, "Error cancelling order");
     reply.status(500);
     return { status: "error", message: "Internal server error" };
   }
 });
 
-app.listen({ port: 3000, host: "0.0.0.0" }, (err, address) => {
+app.get("/balances", async (request, reply) => {
+  try {
+    const balances = await prisma.balance.findMany({
+      where: { accountId: request.accountId },
+      select: { token: true, available: true, reserved: true },
+      orderBy: { token: "asc" },
+    });
+    return { status: "ok", balances };
+  } catch (err) {
+    request.log.error({ err }, "Error fetching balances");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// simulated funding so orders have something to spend
+app.post("/balances/deposit", async (request, reply) => {
+  try {
+    if (!CONFIG.BALANCES.ALLOW_DEPOSITS) {
+      reply.status(403);
+      return { status: "error", message: "Deposits are disabled" };
+    }
+    const body = DepositSchema.safeParse(request.body);
+    if (!body.success) {
+      reply.status(400);
+      return { status: "error", message: "Invalid deposit", errors: body.error };
+    }
+    const { token, amount } = body.data;
+    const balance = await prisma.$transaction((tx) => deposit(tx, request.accountId, token, amount));
+    return { status: "ok", balance: { token, available: balance.available, reserved: balance.reserved } };
+  } catch (err) {
+    request.log.error({ err }, "Error depositing funds");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// the account's ledger entries, newest first, for auditing balances
+app.get("/balances/ledger", async (request, reply) => {
+  try {
+    const query = LedgerQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      reply.status(400);
+      return { status: "error", message: "Invalid query", errors: query.error };
+    }
+    const { token, orderId, cursor, limit } = query.data;
+    const entries = await prisma.ledgerEntry.findMany({
+      where: {
+        accountId: request.accountId,
+        ...(token && { token }),
+        ...(orderId && { orderId }),
+      },
+      orderBy: { id: "desc" },
+      take: limit + 1,
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+    const hasMore = entries.length > limit;
+    const page = hasMore ? entries.slice(0, limit) : entries;
+    return { status: "ok", entries: page, nextCursor: hasMore ? page[page.length - 1]!.id : null };
+  } catch (err) {
+    request.log.error({ err }, "Error listing ledger entries");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+app.get("/orders", async (request, reply) => {
+  try {
+    const query = ListOrdersQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      reply.status(400);
+      return { status: "error", message: "Invalid query", errors: query.error };
+    }
+    const { status, tokenIn, tokenOut, from, to, cursor, limit } = query.data;
+    // newest first, id breaks ties between orders created in the same millisecond
+    const orders = await prisma.orders.findMany({
+      where: {
+        accountId: request.accountId,
+        ...(status && { status }),
+        ...(tokenIn && { tokenIn }),
+        ...(tokenOut && { tokenOut }),
+        ...((from || to) && {
+          createdAt: {
+            ...(from && { gte: new Date(from) }),
+            ...(to && { lte: new Date(to) }),
+          },
+        }),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    const hasMore = orders.length > limit;
+    const page = hasMore ? orders.slice(0, limit) : orders;
+    return { status: "ok", orders: page, nextCursor: hasMore ? page[page.length - 1]!.id : null };
+  } catch (err) {
+    request.log.error({ err }, "Error listing orders");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// circuit state as seen by each engine, an engine that stopped reporting drops out after a few intervals
+app.get("/admin/dexes", { preHandler: requireAdmin }, async (request, reply) => {
+  try {
+    const engines = await redisManager.GetDexHealth();
+    return { status: "ok", engines };
+  } catch (err) {
+    request.log.error({ err }, "Error reading dex health");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+app.get("/admin/dead-letters", { preHandler: requireAdmin }, async (request, reply) => {
+  const query = DeadLetterQuerySchema.safeParse(request.query);
+  if (!query.success) {
+    reply.status(400);
+    return { status: "error", message: "Invalid query", errors: query.error };
+  }
+  try {
+    const { status, cursor, limit } = query.data;
+    const deadLetters = await prisma.deadLetter.findMany({
+      where: { ...(status && { status }) },
+      include: { order: { select: { accountId: true, tokenIn: true, tokenOut: true, amount: true, errorMessage: true } } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    const hasMore = deadLetters.length > limit;
+    const page = hasMore ? deadLetters.slice(0, limit) : deadLetters;
+    // stacks are left to the detail route
+    const summaries = page.map(({ attempts, payload, ...deadLetter }) => ({
+      ...deadLetter,
+      attemptCount: (attempts as unknown[]).length,
+    }));
+    return { status: "ok", deadLetters: summaries, nextCursor: hasMore ? page[page.length - 1]!.id : null };
+  } catch (err) {
+    request.log.error({ err }, "Error listing dead letters");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+app.get("/admin/dead-letters/:id", { preHandler: requireAdmin }, async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const deadLetter = await prisma.deadLetter.findUnique({ where: { id }, include: { order: { include: { fills: true } } } });
+    if (!deadLetter) {
+      reply.status(404);
+      return { status: "error", message: "Dead letter not found" };
+    }
+    const audit = await prisma.adminAuditLog.findMany({ where: { targetId: id }, orderBy: { id: "asc" } });
+    return { status: "ok", deadLetter, audit };
+  } catch (err) {
+    request.log.error({ err }, "Error fetching dead letter");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// the order goes back to the status its retries stopped in and is queued again, a submitted order resumes its plan
+app.post("/admin/dead-letters/:id/replay", { preHandler: requireAdmin }, async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const deadLetter = await prisma.deadLetter.findUnique({ where: { id } });
+    if (!deadLetter) {
+      reply.status(404);
+      return { status: "error", message: "Dead letter not found" };
+    }
+    if (deadLetter.status !== "open") {
+      reply.status(409);
+      return { status: "error", message: `Dead letter was already ${deadLetter.status}` };
+    }
+    // the replay job takes the order over from the job whose retries ran out
+    const jobId = redisManager.ReplayJobId(deadLetter.orderId);
+    const replayed = await orderState.transition(
+      deadLetter.orderId,
+      "dead_lettered",
+      deadLetter.fromStatus as OrderStatus,
+      { message: "replayed from the dead-letter queue" },
+      {
+        data: { errorMessage: null, ownerJobId: jobId },
+        also: (tx) => resolveDeadLetter(tx, id, "replayed", request.accountId, { orderId: deadLetter.orderId }),
+      }
+    );
+    if (!replayed) {
+      reply.status(409);
+      return { status: "error", message: "Order is no longer dead-lettered" };
+    }
+    await redisManager.ReplayOrderJob(deadLetter.payload as unknown as OrderData, jobId);
+    request.log.info({ audit: true, accountId: request.accountId, deadLetterId: id, orderId: deadLetter.orderId }, "dead letter replayed");
+    return { status: "replayed", deadLetterId: id, orderId: deadLetter.orderId };
+  } catch (err) {
+    request.log.error({ err }, "Error replaying dead letter");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+// gives the order up for good, whatever filled is settled and the rest of the hold released
+app.post("/admin/dead-letters/:id/close", { preHandler: requireAdmin }, async (request, reply) => {
+  const body = CloseDeadLetterSchema.safeParse(request.body ?? {});
+  if (!body.success) {
+    reply.status(400);
+    return { status: "error", message: "Invalid request", errors: body.error };
+  }
+  try {
+    const { id } = request.params as { id: string };
+    const deadLetter = await prisma.deadLetter.findUnique({ where: { id }, include: { order: { include: { fills: true } } } });
+    if (!deadLetter) {
+      reply.status(404);
+      return { status: "error", message: "Dead letter not found" };
+    }
+    if (deadLetter.status !== "open") {
+      reply.status(409);
+      return { status: "error", message: `Dead letter was already ${deadLetter.status}` };
+    }
+    const { order } = deadLetter;
+    const error = body.data.reason ?? order.errorMessage ?? "closed by an admin";
+    const closedAs: OrderStatus = order.fills.length > 0 ? "partially_filled" : "failed";
+    const closed = await orderState.transition(
+      order.id,
+      "dead_lettered",
+      closedAs,
+      { message: "closed from the dead-letter queue", error },
+      {
+        data: { ...aggregateFills(order, order.fills), errorMessage: error },
+        also: (tx) =>
+          resolveDeadLetter(tx, id, "closed", request.accountId, {
+            orderId: order.id,
+            closedAs,
+            ...(body.data.reason && { reason: body.data.reason }),
+          }),
+      }
+    );
+    if (!closed) {
+      reply.status(409);
+      return { status: "error", message: "Order is no longer dead-lettered" };
+    }
+    request.log.info({ audit: true, accountId: request.accountId, deadLetterId: id, orderId: order.id, closedAs }, "dead letter closed");
+    return { status: "closed", deadLetterId: id, orderId: order.id, orderStatus: closedAs };
+  } catch (err) {
+    request.log.error({ err }, "Error closing dead letter");
+    reply.status(500);
+    return { status: "error", message: "Internal server error" };
+  }
+});
+
+/**
+ * stops accepting requests, lets the ones in flight finish and ends every stream so clients reconnect elsewhere.
+ * anything still open after DRAIN_TIMEOUT is dropped with the process
+ */
+let shuttingDown = false;
+const shutdown = async (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info({ signal }, "draining API");
+  const timer = setTimeout(() => {
+    logger.error(`API still draining after ${CONFIG.SHUTDOWN.DRAIN_TIMEOUT}ms, exiting`);
+    process.exit(1);
+  }, CONFIG.SHUTDOWN.DRAIN_TIMEOUT);
+  try {
+    // new requests get 503 from here on
+    const closed = app.close();
+    redisManager.DisconnectClients();
+    await closed;
+    await redisManager.Close();
+    await prisma.$disconnect();
+    clearTimeout(timer);
+    logger.info("API stopped");
+    process.exit(0);
+  } catch (err) {
+    logger.error({ err }, "Error shutting down API");
+    process.exit(1);
+  }
+};
+process.once("SIGTERM", () => shutdown("SIGTERM"));
+process.once("SIGINT", () => shutdown("SIGINT"));
+
+app.listen({ port: CONFIG.API.PORT, host: CONFIG.API.HOST }, (err, address) => {
   if (err) throw err;
-  console.log(`DEX Order Execution API running at ${address}`);
-  console.log(`WebSocket available at ws://localhost:3000/ws/:orderId`);
-  console.log(`API Documentation at http://localhost:3000/`);
-  console.log("PostgreSQL and Redis storage enabled");
+  logger.info(`DEX Order Execution API running at ${address}`);
+  logger.info(`WebSocket available at ws://localhost:${CONFIG.API.PORT}/ws/:orderId`);
 });
 
 app.after(() => {
-  console.log("Fastify server is ready to accept requests.");
-  console.log(app.printRoutes());
+  logger.debug(`Routes:\n${app.printRoutes()}`);
 })
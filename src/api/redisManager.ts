@@ -1,7 +1,10 @@
-import { Queue, Worker } from "bullmq";
+import { Queue, QueueEvents, Worker } from "bullmq";
 import { Redis } from "ioredis";
 import { CONFIG } from "../config/config.js";
-import type { OrderData } from "../lib/types.js";
+import type { DexHealthReport, OrderData, QuoteRequest, QuoteResult } from "../lib/types.js";
+import { OrderUpdateSchema, type OrderUpdate, type ServerMessage } from "../lib/protocol.js";
+import type { Subscriber } from "./subscribers.js";
+import { logger } from "../lib/logger.js";
 
 const connection = {
   host: CONFIG.redis.host,
@@ -9,10 +12,49 @@ const connection = {
   maxRetriesPerRequest: null,
 };
 
+// refills the bucket for the time since it was last used, then takes a token if there is one.
+// returns 0 when a token was taken, otherwise the ms until the next one
+const TOKEN_BUCKET_SCRIPT = `
+local burst = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2]) / 1000
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or burst
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(burst, tokens + (now - updatedAt) * perMs)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / perMs)
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], math.ceil(burst / perMs))
+return wait
+`;
+
+// pair topics are per account so a client never sees another account's orders
+export const accountTopic = (accountId: string) => `account:${accountId}`;
+export const pairTopic = (accountId: string, pair: string) => `pair:${accountId}:${pair}`;
+
 export class RedisManager {
   private queue: Queue;
+  private quoteQueue = new Queue<QuoteRequest, QuoteResult>(CONFIG.QUOTE_QUEUE, {
+    connection,
+    // kept for a minute so a waiting request can still read the result if it lands before it listens
+    defaultJobOptions: { removeOnComplete: { age: 60 }, removeOnFail: { age: 60 } },
+  });
+  private quoteEvents = new QueueEvents(CONFIG.QUOTE_QUEUE, { connection });
   private sub: Redis = null as any;
-  private OrderMap: Map<string, { status: string; clients: Set<any> }> = new Map();
+  private subscribed = false;
+  private pub: Redis = new Redis(connection);
+  // entries only exist while a client is subscribed, the last unsubscribe removes them
+  private OrderMap: Map<string, { status: string; clients: Set<Subscriber> }> = new Map();
+  // account and pair subscriptions, keyed by topicKey
+  private TopicMap: Map<string, Set<Subscriber>> = new Map();
+  // orders a client is still receiving replayed history for, live updates are held here until it is sent
+  private replaying: Map<Subscriber, Map<string, OrderUpdate[]>> = new Map();
 
   constructor() {
     this.queue = new Queue(CONFIG.ORDER_QUEUE, { connection , defaultJobOptions: {
@@ -22,21 +64,162 @@ export class RedisManager {
     this.SendUpdateToClients();
   }
 
+  // errors are left to the caller, nothing runs an order whose job was not added
   async addOrderExecutionJob(orderData: OrderData,): Promise<void> {
+    // the order id doubles as the job id so the job can be found again to cancel it
+    await this.queue.add("execute_order", orderData, { jobId: orderData.orderId });
+  }
+
+  // the engine owns the dexes, so quotes are asked of it and awaited, throws if it does not answer in time
+  async RequestQuote(request: QuoteRequest): Promise<QuoteResult> {
+    const job = await this.quoteQueue.add("quote", request);
+    return await job.waitUntilFinished(this.quoteEvents, CONFIG.QUOTES.REQUEST_TIMEOUT);
+  }
+
+  // the latest report of every running engine, each has its own circuit breakers
+  async GetDexHealth(): Promise<{ instance: string; reportedAt: string; dexes: DexHealthReport[] }[]> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.pub.scan(cursor, "MATCH", `${CONFIG.DEX_HEALTH.KEY_PREFIX}:*`, "COUNT", 100);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== "0");
+    if (keys.length === 0) return [];
+    const reports = await this.pub.mget(...keys);
+    return reports.flatMap((report) => (report ? [JSON.parse(report)] : []));
+  }
+
+  // a dead-lettered order goes back on the queue under a new job id, the failed job keeps its own
+  ReplayJobId(orderId: string) {
+    return `${orderId}-replay-${Date.now()}`;
+  }
+
+  async ReplayOrderJob(orderData: OrderData, jobId: string) {
+    await this.queue.add("execute_order", orderData, { jobId });
+  }
+
+  // removes the order's job if the engine has not picked it up yet
+  async RemoveWaitingJob(orderId: string): Promise<boolean> {
     try {
-      await this.queue.add("execute_order", orderData);
-      this.OrderMap.set(orderData.orderId, { status: "pending", clients: new Set() });
+      const job = await this.queue.getJob(orderId);
+      if (!job) return false;
+      const state = await job.getState();
+      if (state !== "waiting" && state !== "delayed" && state !== "prioritized") return false;
+      await job.remove();
+      return true;
     } catch (err) {
-      console.error("Error adding job to queue:", err);
+      // the engine locked the job between getState and remove
+      logger.error({ err, orderId }, "Error removing waiting job");
+      return false;
     }
   }
 
-  SubscribeToOrderUpdates(orderId: string, client: any) {
-    this.OrderMap.get(orderId)?.clients.add(client);
+  // the bucket lives in redis so every api instance draws from the same one
+  async TakeRateLimitToken(key: string, burst: number, perSecond: number): Promise<number> {
+    return (await this.pub.eval(TOKEN_BUCKET_SCRIPT, 1, key, burst, perSecond)) as number;
+  }
+
+  async Ping() {
+    return await this.pub.ping();
+  }
+
+  // ioredis resubscribes after a reconnect, until then no update reaches this instance's clients
+  IsSubscribed() {
+    return this.subscribed && this.sub.status === "ready";
   }
 
-  UnsubscribeFromOrderUpdates(orderId: string, client: any) {
-    this.OrderMap.get(orderId)?.clients.delete(client);
+  // errors are left to the caller, an unpublished event stays in the outbox
+  async PublishOrderUpdate(update: OrderUpdate) {
+    await this.pub.publish(CONFIG.ORDER_UPDATES_CHANNEL, JSON.stringify(update));
+  }
+
+  /**
+   * the order may have been created by another api instance or before a restart,
+   * so the entry is created on demand and the snapshot and stored history are sent first.
+   * returns false and drops the subscription when loadHistory finds no order
+   */
+  async SubscribeToOrderUpdates(
+    orderId: string,
+    client: Subscriber,
+    loadHistory: () => Promise<ServerMessage[] | null>
+  ): Promise<boolean> {
+    let order = this.OrderMap.get(orderId);
+    if (!order) {
+      order = { status: "pending", clients: new Set() };
+      this.OrderMap.set(orderId, order);
+    }
+    const buffered: OrderUpdate[] = [];
+    if (!this.replaying.has(client)) this.replaying.set(client, new Map());
+    this.replaying.get(client)!.set(orderId, buffered);
+    order.clients.add(client);
+
+    try {
+      const history = await loadHistory();
+      if (!history) {
+        this.UnsubscribeFromOrderUpdates(orderId, client);
+        return false;
+      }
+      history.forEach((message) => client.send(message));
+      // anything published while history was loading may already be in it
+      const lastSeq = Math.max(0, ...history.map((message) => message.seq));
+      buffered.filter((update) => update.seq > lastSeq).forEach((update) => client.send(update));
+    } catch (err) {
+      logger.error({ err, orderId }, "Error replaying order history");
+    } finally {
+      this.StopReplaying(client, orderId);
+    }
+    return true;
+  }
+
+  UnsubscribeFromOrderUpdates(orderId: string, client: Subscriber) {
+    const order = this.OrderMap.get(orderId);
+    order?.clients.delete(client);
+    if (order?.clients.size === 0) this.OrderMap.delete(orderId);
+    this.StopReplaying(client, orderId);
+  }
+
+  // live updates only, accounts and pairs have no history to replay
+  SubscribeToTopic(key: string, client: Subscriber) {
+    let clients = this.TopicMap.get(key);
+    if (!clients) {
+      clients = new Set();
+      this.TopicMap.set(key, clients);
+    }
+    clients.add(client);
+  }
+
+  UnsubscribeFromTopic(key: string, client: Subscriber) {
+    const clients = this.TopicMap.get(key);
+    clients?.delete(client);
+    if (clients?.size === 0) this.TopicMap.delete(key);
+  }
+
+  // drops every subscription of a closed connection
+  RemoveClient(client: Subscriber) {
+    [...this.OrderMap.keys()].forEach((orderId) => this.UnsubscribeFromOrderUpdates(orderId, client));
+    [...this.TopicMap.keys()].forEach((key) => this.UnsubscribeFromTopic(key, client));
+    this.replaying.delete(client);
+  }
+
+  // every subscriber is told to go away before the server closes, streams would otherwise hold it open
+  DisconnectClients() {
+    const clients = new Set([
+      ...[...this.OrderMap.values()].flatMap((order) => [...order.clients]),
+      ...[...this.TopicMap.values()].flatMap((topic) => [...topic]),
+    ]);
+    clients.forEach((client) => client.close());
+  }
+
+  async Close() {
+    await Promise.all([this.queue.close(), this.quoteQueue.close(), this.quoteEvents.close()]);
+    await Promise.all([this.sub.quit(), this.pub.quit()]);
+  }
+
+  private StopReplaying(client: Subscriber, orderId: string) {
+    const orders = this.replaying.get(client);
+    orders?.delete(orderId);
+    if (orders?.size === 0) this.replaying.delete(client);
   }
 
   async SendUpdateToClients() {
@@ -44,22 +227,40 @@ export class RedisManager {
       this.sub = new Redis(connection);
       await this.sub.subscribe(CONFIG.ORDER_UPDATES_CHANNEL, (err, count) => {
         if (err) {
-          console.error("Failed to subscribe: ", err);
+          logger.error({ err }, "Failed to subscribe to order updates");
         } else {
-          console.log(`Subscribed successfully! This client is currently subscribed to ${count} channels.`);
+          logger.info({ channels: count }, "Subscribed to order updates");
+          this.subscribed = true;
           this.sub.on("message", async (channel, message) => {
-            const data = JSON.parse(message);
-            const clients = this.OrderMap.get(data.orderId)?.clients;
-            if (clients) {
-              clients.forEach((client) => {
-                client.send(JSON.stringify(data));
-              });
+            // a publisher on another protocol version or a malformed message never reaches clients
+            const parsed = OrderUpdateSchema.safeParse(JSON.parse(message));
+            if (!parsed.success) {
+              logger.error({ error: parsed.error.message }, "Dropping invalid order update");
+              return;
             }
+            const data = parsed.data;
+            const order = this.OrderMap.get(data.orderId);
+            if (order) order.status = data.status;
+
+            // a client following the order through several topics gets the update once
+            const clients = new Set([
+              ...(order?.clients ?? []),
+              ...(this.TopicMap.get(accountTopic(data.accountId)) ?? []),
+              ...(this.TopicMap.get(pairTopic(data.accountId, data.pair)) ?? []),
+            ]);
+            clients.forEach((client) => {
+              const buffered = this.replaying.get(client)?.get(data.orderId);
+              if (buffered) {
+                buffered.push(data);
+              } else {
+                client.send(data);
+              }
+            });
           });
         }
       });
     } catch (err) {
-      console.error("Error processing job updates:", err);
+      logger.error({ err }, "Error processing order updates");
     }
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * the ways a client can follow an order, RedisManager fans updates out to any of them.
+ * websockets and sse streams are long lived, a poll subscriber lives for one request.
+ */
+
+import type { ServerResponse } from "http";
+import type { WebSocket } from "ws";
+import { CONFIG } from "../config/config.js";
+import { logger } from "../lib/logger.js";
+import type { ControlMessage, OrderUpdate, ServerMessage } from "../lib/protocol.js";
+
+export interface Subscriber {
+  send(message: ServerMessage | ControlMessage): void;
+  // ends the stream when the api shuts down, the client reconnects to another instance
+  close(): void;
+}
+
+// a client that cannot keep up is disconnected, it can reconnect and resume from the snapshot
+export class WebSocketSubscriber implements Subscriber {
+  constructor(private socket: WebSocket) {}
+
+  send(message: ServerMessage | ControlMessage) {
+    if (this.socket.readyState !== this.socket.OPEN) return;
+    if (this.socket.bufferedAmount > CONFIG.STREAMING.MAX_BUFFERED_BYTES) {
+      logger.warn({ unsentBytes: this.socket.bufferedAmount }, "Closing slow WebSocket client");
+      this.socket.close(1013, "Client too slow");
+      return;
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    if (this.socket.readyState === this.socket.OPEN) this.socket.close(1001, "Server shutting down");
+  }
+}
+
+// the event id is the update's seq so a reconnecting EventSource resumes with Last-Event-ID
+export class SseSubscriber implements Subscriber {
+  constructor(private res: ServerResponse) {}
+
+  send(message: ServerMessage | ControlMessage) {
+    if (this.res.writableEnded) return;
+    if (this.res.writableLength > CONFIG.STREAMING.MAX_BUFFERED_BYTES) {
+      logger.warn({ unsentBytes: this.res.writableLength }, "Closing slow SSE client");
+      this.res.end();
+      return;
+    }
+    // the snapshot gets no id, resuming from it would skip the history that follows
+    const id = "seq" in message && message.type !== "snapshot" ? `id: ${message.seq}\n` : "";
+    this.res.write(`${id}event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  close() {
+    if (!this.res.writableEnded) this.res.end();
+  }
+
+  // comment line, keeps proxies from closing an idle stream
+  heartbeat() {
+    if (!this.res.writableEnded) this.res.write(": ping\n\n");
+  }
+}
+
+// collects updates after a seq until one of them is a status change or the poll times out
+export class PollSubscriber implements Subscriber {
+  readonly updates: OrderUpdate[] = [];
+  private done: (() => void) | null = null;
+
+  constructor(private after: number) {}
+
+  send(message: ServerMessage | ControlMessage) {
+    if (message.type === "snapshot" || !("seq" in message) || message.seq <= this.after) return;
+    this.updates.push(message);
+    if (isStatusChange(message)) this.done?.();
+  }
+
+  // answers the poll with whatever it collected so far
+  close() {
+    this.done?.();
+  }
+
+  get changed() {
+    return this.updates.some(isStatusChange);
+  }
+
+  async wait(timeout: number, aborted: Promise<void>) {
+    if (this.changed) return;
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      new Promise<void>((resolve) => {
+        this.done = resolve;
+        timer = setTimeout(resolve, timeout);
+      }),
+      aborted,
+    ]);
+    clearTimeout(timer);
+  }
+}
+
+// retried attempts also report as failed but leave the status where it was
+const isStatusChange = (update: OrderUpdate) =>
+  update.type === "status_changed" || (update.type === "failed" && !update.retrying);
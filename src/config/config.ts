@@ -1,10 +1,27 @@
-export const CONFIG = {
+/**
+ * defaults for every setting, see loader.ts for how a config file and env vars override them.
+ * import CONFIG from here, it is loaded and validated once when the process starts
+ */
+
+import { ConfigError } from '../lib/errors.js';
+import type { Config } from './configSchema.js';
+import { loadConfig, readService } from './loader.js';
+
+export type { ApiConfig, Config, MocksConfig, RoutingConfig, WorkerConfig } from './configSchema.js';
+
+const DEFAULTS: Config = {
+  API: {
+    HOST: '0.0.0.0',
+    PORT: 3000,
+  },
   redis: {
     host: 'localhost',
     port: 6379,
   },
   ORDER_QUEUE: 'execute_orders',
   ORDER_UPDATES_CHANNEL: 'order_updates',
+  // POST /quote asks the engine for a price through this queue, the engine owns the dex connections
+  QUOTE_QUEUE: 'quotes',
 
 
   MAX_RETRY: 3,
@@ -12,4 +29,174 @@ export const CONFIG = {
     type: 'exponential',
     delay: 5000,
   },
+
+  DEAD_LETTER: {
+    // how long the errors of a job's failed attempts are kept while it is still being retried
+    ATTEMPTS_TTL: 7 * 24 * 60 * 60 * 1000,
+  },
+
+  SHUTDOWN: {
+    // how long SIGTERM waits for running jobs and open requests before closing anyway
+    DRAIN_TIMEOUT: 25000,
+  },
+
+  RECONCILE: {
+    // an unfinished order with no job left in the queue and no change for this long is treated as stuck
+    STUCK_AFTER: 5 * 60 * 1000,
+  },
+
+  METRICS: {
+    // the engine has no api, it serves /metrics, /healthz and /readyz on this port
+    ENGINE_PORT: 9464,
+  },
+
+  HEALTH: {
+    // a postgres or redis check that takes longer reports the dependency as down
+    TIMEOUT: 2000,
+  },
+
+  LOG: {
+    LEVEL: 'info',
+  },
+
+  WORKER: {
+    // orders processed at once by one engine instance
+    CONCURRENCY: 10,
+    // orders of one account processed at once across every engine instance, the rest wait their turn
+    ACCOUNT_CONCURRENCY: 2,
+    // how long a job waits before trying for an account slot again
+    ACCOUNT_RETRY_DELAY: 1000,
+    // a slot older than this was left by a crashed worker and is freed
+    ACCOUNT_LEASE: 10 * 60 * 1000,
+  },
+
+  RATE_LIMIT: {
+    // token bucket per account on /execute-order and another on /quote, shared by every api instance through redis
+    ORDER_BURST: 10,
+    ORDERS_PER_SECOND: 2,
+    // unfinished orders one account may have, parked limit orders included
+    MAX_IN_FLIGHT_ORDERS: 20,
+    // seconds, sent as Retry-After when the in-flight cap is hit
+    IN_FLIGHT_RETRY_AFTER: 5,
+  },
+
+  BALANCES: {
+    // POST /balances/deposit credits funds out of thin air, turn it off anywhere that is not a simulation
+    ALLOW_DEPOSITS: true,
+  },
+
+  QUOTES: {
+    // signs quote ids so /execute-order can trust the route inside them, must match on every api instance.
+    // this default is public, loadConfig refuses it unless NODE_ENV is development or test
+    SECRET: 'dev-quote-secret',
+    // how long a quote can be executed against
+    TTL: 30000,
+    // a quoted order is rejected if the live output fell more than this below the quote, also its minimum output
+    TOLERANCE_BPS: 100,
+    // how long /quote waits for the engine before giving up
+    REQUEST_TIMEOUT: 15000,
+  },
+
+  // adapters are looked up by name in the dex registry, add an entry to route through another dex
+  DEX_ADAPTERS: [
+    { name: 'raydium', quoteTimeout: 5000 },
+    { name: 'meteora', quoteTimeout: 5000 },
+  ],
+
+  CIRCUIT_BREAKER: {
+    // quote or swap failures in a row, timeouts included, before a dex is taken out of routing
+    FAILURE_THRESHOLD: 3,
+    // how long an open breaker refuses calls before letting one through to test the dex
+    OPEN_DURATION: 30000,
+  },
+
+  DEX_HEALTH: {
+    // every engine reports its breakers and adapter health to redis this often, for GET /admin/dexes
+    REPORT_INTERVAL: 10000,
+    KEY_PREFIX: 'dex_health',
+  },
+
+  ROUTING: {
+    // tokens the router may hop through when looking for 2-leg routes
+    INTERMEDIATE_TOKENS: ['USDC', 'USDT'],
+    // split orders are allocated across dexes in this many equal slices
+    SPLIT_SLICES: 10,
+  },
+
+  QUOTE_CACHE: {
+    // dex quotes are reused for this long, keep it well below how fast prices move
+    TTL: 2000,
+    // amounts are rounded to this many significant digits for the cache key
+    AMOUNT_PRECISION: 3,
+    // hit and miss counts are logged this often
+    STATS_INTERVAL: 60000,
+  },
+
+  // the simulated market behind the mock dexes
+  MOCKS: {
+    // set a number to make mock pool prices reproducible between runs
+    SEED: null,
+    REFERENCE_PRICES: {
+      SOL: 150,
+      USDC: 1,
+      USDT: 1,
+      BTC: 90000,
+      ETH: 3200,
+    },
+    // pools start up to this far away from the reference price so dexes quote differently
+    INITIAL_SKEW: 0.01,
+    // largest trade from other traders simulated before each swap, as a share of the pool
+    BACKGROUND_FLOW: 0.002,
+    QUOTE_LATENCY: 2000,
+    SWAP_LATENCY: { MIN: 2000, MAX: 3000 },
+    // usd on each side of every pool a dex creates, shallower pools have more price impact
+    DEXES: {
+      raydium: { fee: 0.003, depth: 5_000_000 },
+      meteora: { fee: 0.002, depth: 3_000_000 },
+      orca: { fee: 0.0025, depth: 4_000_000 },
+      phoenix: { fee: 0.001, depth: 2_000_000 },
+    },
+  },
+
+  OUTBOX: {
+    POLL_INTERVAL: 5000,
+    // events younger than this are probably still being published by the process that wrote them
+    GRACE_PERIOD: 5000,
+  },
+
+  // websocket, sse and long-poll delivery of order updates
+  STREAMING: {
+    // websocket clients are pinged this often and dropped if they did not answer the previous ping,
+    // sse streams get a comment line so proxies keep them open
+    HEARTBEAT_INTERVAL: 30000,
+    // a client with more unsent data than this is disconnected instead of buffering without limit
+    MAX_BUFFERED_BYTES: 1024 * 1024,
+    LONG_POLL_TIMEOUT: 25000,
+    LONG_POLL_MAX_TIMEOUT: 60000,
+  },
+
+  LIMIT_ORDER: {
+    POLL_INTERVAL: 5000,
+    DEFAULT_TTL: 24 * 60 * 60 * 1000,
+  },
 };
+
+export const SERVICE = (() => {
+  try {
+    return readService();
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+})();
+
+// a bad setting stops the process here with every problem listed, before anything connects
+export const CONFIG = (() => {
+  try {
+    return loadConfig(DEFAULTS, SERVICE);
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(err.message);
+    process.exit(1);
+  }
+})();
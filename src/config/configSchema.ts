@@ -0,0 +1,136 @@
+/**
+ * the shape every loaded config must have, the defaults live in config.ts.
+ * objects are strict so a misspelt key in a config file or env var fails at startup instead of being ignored
+ */
+
+import { z } from "zod";
+
+const positiveInt = z.number().int().positive();
+const ms = z.number().int().nonnegative();
+
+const ApiSection = z.strictObject({
+  HOST: z.string().min(1),
+  PORT: z.number().int().min(1).max(65535),
+});
+
+const WorkerSection = z.strictObject({
+  CONCURRENCY: positiveInt,
+  ACCOUNT_CONCURRENCY: positiveInt,
+  ACCOUNT_RETRY_DELAY: ms,
+  ACCOUNT_LEASE: positiveInt,
+});
+
+const RoutingSection = z.strictObject({
+  INTERMEDIATE_TOKENS: z.array(z.string().min(1)),
+  SPLIT_SLICES: positiveInt,
+});
+
+const MockDexSection = z.strictObject({
+  fee: z.number().min(0).lt(1),
+  depth: z.number().positive(),
+});
+
+const MocksSection = z.strictObject({
+  SEED: z.number().int().nullable(),
+  // usd reference price per token, pair prices are derived from these
+  REFERENCE_PRICES: z.record(z.string(), z.number().positive()),
+  INITIAL_SKEW: z.number().min(0).lt(1),
+  BACKGROUND_FLOW: z.number().min(0).lt(1),
+  QUOTE_LATENCY: ms,
+  SWAP_LATENCY: z
+    .strictObject({ MIN: ms, MAX: ms })
+    .refine((latency) => latency.MIN <= latency.MAX, "MIN must not be above MAX"),
+  DEXES: z.record(z.string(), MockDexSection),
+});
+
+export const ConfigSchema = z.strictObject({
+  API: ApiSection,
+  redis: z.strictObject({
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535),
+  }),
+  ORDER_QUEUE: z.string().min(1),
+  ORDER_UPDATES_CHANNEL: z.string().min(1),
+  QUOTE_QUEUE: z.string().min(1),
+  MAX_RETRY: positiveInt,
+  BACK_OFF: z.strictObject({
+    type: z.enum(["exponential", "fixed"]),
+    delay: ms,
+  }),
+  DEAD_LETTER: z.strictObject({
+    ATTEMPTS_TTL: positiveInt,
+  }),
+  SHUTDOWN: z.strictObject({
+    DRAIN_TIMEOUT: positiveInt,
+  }),
+  RECONCILE: z.strictObject({
+    STUCK_AFTER: positiveInt,
+  }),
+  METRICS: z.strictObject({
+    ENGINE_PORT: z.number().int().min(1).max(65535),
+  }),
+  HEALTH: z.strictObject({
+    TIMEOUT: positiveInt,
+  }),
+  LOG: z.strictObject({
+    LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"]),
+  }),
+  WORKER: WorkerSection,
+  RATE_LIMIT: z.strictObject({
+    ORDER_BURST: positiveInt,
+    ORDERS_PER_SECOND: z.number().positive(),
+    MAX_IN_FLIGHT_ORDERS: positiveInt,
+    IN_FLIGHT_RETRY_AFTER: positiveInt,
+  }),
+  BALANCES: z.strictObject({
+    ALLOW_DEPOSITS: z.boolean(),
+  }),
+  QUOTES: z.strictObject({
+    SECRET: z.string().min(16, "must be at least 16 characters"),
+    TTL: positiveInt,
+    TOLERANCE_BPS: z.number().int().min(0).max(10000),
+    REQUEST_TIMEOUT: positiveInt,
+  }),
+  DEX_ADAPTERS: z
+    .array(z.strictObject({ name: z.string().min(1), quoteTimeout: positiveInt }))
+    .min(1, "at least one dex adapter is required"),
+  CIRCUIT_BREAKER: z.strictObject({
+    FAILURE_THRESHOLD: positiveInt,
+    OPEN_DURATION: positiveInt,
+  }),
+  DEX_HEALTH: z.strictObject({
+    REPORT_INTERVAL: positiveInt,
+    KEY_PREFIX: z.string().min(1),
+  }),
+  ROUTING: RoutingSection,
+  QUOTE_CACHE: z.strictObject({
+    TTL: positiveInt,
+    AMOUNT_PRECISION: z.number().int().min(1).max(15),
+    STATS_INTERVAL: positiveInt,
+  }),
+  MOCKS: MocksSection,
+  OUTBOX: z.strictObject({
+    POLL_INTERVAL: positiveInt,
+    GRACE_PERIOD: ms,
+  }),
+  STREAMING: z
+    .strictObject({
+      HEARTBEAT_INTERVAL: positiveInt,
+      MAX_BUFFERED_BYTES: positiveInt,
+      LONG_POLL_TIMEOUT: z.number().int().min(1000),
+      LONG_POLL_MAX_TIMEOUT: z.number().int().min(1000),
+    })
+    .refine((streaming) => streaming.LONG_POLL_TIMEOUT <= streaming.LONG_POLL_MAX_TIMEOUT, {
+      message: "LONG_POLL_TIMEOUT must not be above LONG_POLL_MAX_TIMEOUT",
+    }),
+  LIMIT_ORDER: z.strictObject({
+    POLL_INTERVAL: positiveInt,
+    DEFAULT_TTL: positiveInt,
+  }),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type ApiConfig = z.infer<typeof ApiSection>;
+export type WorkerConfig = z.infer<typeof WorkerSection>;
+export type RoutingConfig = z.infer<typeof RoutingSection>;
+export type MocksConfig = z.infer<typeof MocksSection>;
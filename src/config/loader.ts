@@ -0,0 +1,164 @@
+/**
+ * builds CONFIG from the defaults, an optional json file and env vars, later sources win:
+ *   defaults < CONFIG_FILE < its "services.<SERVICE>" section < EDX__* env vars < EDX_<SERVICE>__* env vars
+ * env var names are the path of the setting joined with `__`, e.g. EDX__WORKER__CONCURRENCY=20 or
+ * EDX_ENGINE__WORKER__CONCURRENCY=20 for the engine only. values are read as json when they parse,
+ * so numbers, booleans, null and arrays work, settings whose default is a string always stay strings.
+ * the result is validated once at startup, a bad setting stops the process with every problem listed
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { ConfigError } from "../lib/errors.js";
+import { ConfigSchema, type Config } from "./configSchema.js";
+
+export const SERVICES = ["api", "engine", "scripts"] as const;
+export type Service = (typeof SERVICES)[number];
+
+type Settings = Record<string, unknown>;
+
+// short names for the settings that change most between environments
+const ENV_ALIASES: Record<string, string[]> = {
+  REDIS_HOST: ["redis", "host"],
+  REDIS_PORT: ["redis", "port"],
+  PORT: ["API", "PORT"],
+  QUOTE_SECRET: ["QUOTES", "SECRET"],
+  LOG_LEVEL: ["LOG", "LEVEL"],
+};
+
+const isObject = (value: unknown): value is Settings =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// objects are merged key by key, arrays and values are replaced
+const deepMerge = (base: Settings, override: Settings): Settings => {
+  const merged: Settings = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] = isObject(current) && isObject(value) ? deepMerge(current, value) : value;
+  }
+  return merged;
+};
+
+/**
+ * maps each segment onto a key of the defaults ignoring case, so EDX__REDIS__HOST finds `redis.host`.
+ * a segment with no match is kept as written and left for the schema to accept or reject
+ */
+const resolvePath = (defaults: Settings, segments: string[]) => {
+  let node: unknown = defaults;
+  const path = segments.map((segment) => {
+    const key = isObject(node)
+      ? Object.keys(node).find((candidate) => candidate.toUpperCase() === segment.toUpperCase()) ?? segment
+      : segment;
+    node = isObject(node) ? node[key] : undefined;
+    return key;
+  });
+  return { path, stringSetting: typeof node === "string" };
+};
+
+const parseEnvValue = (value: string, stringSetting: boolean): unknown => {
+  if (stringSetting) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const setPath = (settings: Settings, path: string[], value: unknown) => {
+  let node = settings;
+  for (const key of path.slice(0, -1)) {
+    if (!isObject(node[key])) node[key] = {};
+    node = node[key] as Settings;
+  }
+  node[path[path.length - 1]!] = value;
+};
+
+const fromEnv = (defaults: Settings, env: NodeJS.ProcessEnv, prefix: string, aliases: Record<string, string[]> = {}) => {
+  const settings: Settings = {};
+  const set = (segments: string[], value: string) => {
+    const { path, stringSetting } = resolvePath(defaults, segments);
+    setPath(settings, path, parseEnvValue(value, stringSetting));
+  };
+  for (const [name, segments] of Object.entries(aliases)) {
+    const value = env[name];
+    if (value !== undefined) set(segments, value);
+  }
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(prefix) || value === undefined) continue;
+    const segments = name.slice(prefix.length).split("__");
+    if (segments.some((segment) => segment.length === 0)) {
+      throw new ConfigError(`${name} is not a valid setting name, separate the path with a double underscore`);
+    }
+    set(segments, value);
+  }
+  return settings;
+};
+
+const readConfigFile = (file: string): { settings: Settings; services: Partial<Record<Service, Settings>> } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new ConfigError(`cannot read config file ${file}: ${(err as Error).message}`);
+  }
+  if (!isObject(parsed)) throw new ConfigError(`config file ${file} must contain a json object`);
+  const { services = {}, ...settings } = parsed;
+  if (!isObject(services)) throw new ConfigError(`"services" in ${file} must be an object`);
+  for (const [service, overrides] of Object.entries(services)) {
+    if (!SERVICES.includes(service as Service)) {
+      throw new ConfigError(`unknown service "${service}" in ${file}, expected one of ${SERVICES.join(", ")}`);
+    }
+    if (!isObject(overrides)) throw new ConfigError(`"services.${service}" in ${file} must be an object`);
+  }
+  return { settings, services: services as Partial<Record<Service, Settings>> };
+};
+
+// the only environments that may run with the public default QUOTES.SECRET
+const DEVELOPMENT_ENVS = ["development", "test"];
+
+// the process sets SERVICE so it can pick up its own overrides, without it only shared settings apply
+export const readService = (env: NodeJS.ProcessEnv = process.env): Service | undefined => {
+  const service = env.SERVICE;
+  if (service === undefined || service === "") return undefined;
+  if (!SERVICES.includes(service as Service)) {
+    throw new ConfigError(`SERVICE must be one of ${SERVICES.join(", ")}, got "${service}"`);
+  }
+  return service as Service;
+};
+
+export const loadConfig = (defaults: Config, service: Service | undefined, env: NodeJS.ProcessEnv = process.env): Config => {
+  const base = defaults as unknown as Settings;
+  const layers: Settings[] = [];
+  const sources = ["defaults"];
+
+  if (env.CONFIG_FILE) {
+    const file = readConfigFile(env.CONFIG_FILE);
+    layers.push(file.settings);
+    sources.push(env.CONFIG_FILE);
+    const overrides = service && file.services[service];
+    if (overrides) {
+      layers.push(overrides);
+      sources.push(`${env.CONFIG_FILE} (services.${service})`);
+    }
+  }
+  layers.push(fromEnv(base, env, "EDX__", ENV_ALIASES));
+  if (service) layers.push(fromEnv(base, env, `EDX_${service.toUpperCase()}__`));
+  sources.push("env");
+
+  // anyone with the repo can sign quotes with the default secret, so a deployment must bring its own
+  const schema = DEVELOPMENT_ENVS.includes(env.NODE_ENV ?? "")
+    ? ConfigSchema
+    : ConfigSchema.refine((config) => config.QUOTES?.SECRET !== defaults.QUOTES.SECRET, {
+        message: `must be set, e.g. with QUOTE_SECRET, unless NODE_ENV is ${DEVELOPMENT_ENVS.join(" or ")}`,
+        path: ["QUOTES", "SECRET"],
+        // listed with any other problem instead of only once the rest is valid
+        when: () => true,
+      });
+  const result = schema.safeParse(layers.reduce(deepMerge, base));
+  if (!result.success) {
+    throw new ConfigError(
+      `invalid configuration${service ? ` for ${service}` : ""} (from ${sources.join(", ")}):\n${z.prettifyError(result.error)}`
+    );
+  }
+  return result.data;
+};
@@ -0,0 +1,76 @@
+/**
+ * CircuitBreaker stops calling a dex that keeps failing. after FAILURE_THRESHOLD failures in a row
+ * it opens and every call is refused, after OPEN_DURATION it half-opens and lets one call through,
+ * which closes it again on success or re-opens it on failure.
+ */
+
+import { CONFIG } from "../config/config.js";
+import { CircuitOpenError } from "../lib/errors.js";
+import type { CircuitSnapshot, CircuitState } from "../lib/types.js";
+import { logger } from "../lib/logger.js";
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+  private lastError: string | null = null;
+
+  constructor(readonly name: string, private onChange: (breaker: CircuitBreaker) => void = () => {}) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= CONFIG.CIRCUIT_BREAKER.OPEN_DURATION ? "half_open" : "open";
+  }
+
+  // calls that fail with an error `countsAsFailure` rejects, e.g. a slippage revert, leave the breaker alone
+  async run<T>(call: () => Promise<T>, countsAsFailure: (err: unknown) => boolean = () => true): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half_open" && this.probing)) throw new CircuitOpenError(this.name);
+    const probe = state === "half_open";
+    if (probe) this.probing = true;
+    try {
+      const result = await call();
+      this.recordSuccess();
+      return result;
+    } catch (err) {
+      if (countsAsFailure(err)) {
+        this.recordFailure(err as Error);
+      } else if (probe) {
+        this.recordSuccess();
+      }
+      throw err;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private recordSuccess() {
+    const wasOpen = this.openedAt !== null;
+    this.failures = 0;
+    this.openedAt = null;
+    if (wasOpen) {
+      logger.info({ dex: this.name }, "circuit closed");
+      this.onChange(this);
+    }
+  }
+
+  private recordFailure(err: Error) {
+    this.failures++;
+    this.lastError = err.message;
+    // a failed probe re-opens for another full period
+    if (this.openedAt !== null || this.failures >= CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+      logger.error({ dex: this.name, failures: this.failures, error: err.message }, "circuit opened");
+      this.onChange(this);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { CONFIG } from "../config/config.js";
+import { UnknownDexError } from "../lib/errors.js";
+import type { DexAdapter } from "../lib/types.js";
+import { MeteoraMock, OrcaMock, PhoenixMock, RaydiumMock } from "./mock.js";
+import { CircuitBreaker } from "./circuitBreaker.js";
+
+// every adapter the engine knows how to build, CONFIG.DEX_ADAPTERS picks which ones are live
+const adapterFactories = new Map<string, () => DexAdapter>([
+  ["raydium", () => new RaydiumMock()],
+  ["meteora", () => new MeteoraMock()],
+  ["orca", () => new OrcaMock()],
+  ["phoenix", () => new PhoenixMock()],
+]);
+
+export const registerDexAdapter = (name: string, factory: () => DexAdapter) => {
+  adapterFactories.set(name, factory);
+};
+
+export interface RegisteredAdapter {
+  adapter: DexAdapter;
+  quoteTimeout: number;
+  // shared by the adapter's quotes and swaps
+  breaker: CircuitBreaker;
+}
+
+export class DexRegistry {
+  private adapters: Map<string, RegisteredAdapter> = new Map();
+
+  constructor(private onCircuitChange: (breaker: CircuitBreaker) => void = () => {}) {}
+
+  static fromConfig(onCircuitChange?: (breaker: CircuitBreaker) => void): DexRegistry {
+    const registry = new DexRegistry(onCircuitChange);
+    for (const { name, quoteTimeout } of CONFIG.DEX_ADAPTERS) {
+      const factory = adapterFactories.get(name);
+      if (!factory) throw new UnknownDexError(name);
+      registry.register(factory(), quoteTimeout);
+    }
+    return registry;
+  }
+
+  register(adapter: DexAdapter, quoteTimeout: number) {
+    this.adapters.set(adapter.name, {
+      adapter,
+      quoteTimeout,
+      breaker: new CircuitBreaker(adapter.name, this.onCircuitChange),
+    });
+  }
+
+  get(name: string): RegisteredAdapter {
+    const entry = this.adapters.get(name);
+    if (!entry) throw new UnknownDexError(name);
+    return entry;
+  }
+
+  list(): RegisteredAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  // adapters that list the pair in either direction
+  forPair(tokenIn: string, tokenOut: string): RegisteredAdapter[] {
+    return this.list().filter(({ adapter }) =>
+      adapter
+        .supportedPairs()
+        .some(([a, b]) => (a === tokenIn && b === tokenOut) || (a === tokenOut && b === tokenIn))
+    );
+  }
+}
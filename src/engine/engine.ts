@@ -4,13 +4,41 @@
  *
  */
 
-import { Worker } from "bullmq";
+import { DelayedError, Queue, Worker, type Job } from "bullmq";
 import { Redis } from "ioredis";
+import { createServer, type Server } from "http";
+import { hostname } from "os";
 import { CONFIG } from "../config/config.js";
 import { dexHandler } from "./services.js";
-import type { OrderData } from "../lib/types.js";
-import { sleep } from "../lib/utils.js";
-import { PrismaClient } from "@prisma/client";
+import { DexRegistry } from "./dexRegistry.js";
+import { QuoteCache } from "./quoteCache.js";
+import { isLimitCrossed, LimitOrderWatcher } from "./limitWatcher.js";
+import type {
+  ExecutionPlan,
+  OrderData,
+  OrderQuote,
+  OrderType,
+  QuoteRequest,
+  QuoteResult,
+  Route,
+  SplitRoute,
+  SwapResult,
+} from "../lib/types.js";
+import { aggregateFills, getMinAmountOut, netPrice, sleep } from "../lib/utils.js";
+import { EngineDrainingError, QuoteRejectedError, SlippageExceededError } from "../lib/errors.js";
+import { isQuoteExpired } from "../lib/quotes.js";
+import { isTerminal, OrderStateMachine, type OrderStatus } from "../lib/orderState.js";
+import { Prisma, PrismaClient, type OrderFill, type Orders } from "@prisma/client";
+import {
+  jobRetries,
+  jobsDeadLettered,
+  realizedSlippage,
+  registerQueueDepthGauge,
+  registry,
+  slippageBps,
+} from "../lib/metrics.js";
+import { checkDependencies } from "../lib/health.js";
+import { logger, orderLogContext, withLogContext } from "../lib/logger.js";
 
 class Engine {
   private redisPublisher: Redis;
@@ -21,121 +49,767 @@ class Engine {
   };
   constructor() {
     this.redisPublisher = new Redis(this.connection);
+    process.once("SIGTERM", () => this.Shutdown("SIGTERM"));
+    process.once("SIGINT", () => this.Shutdown("SIGINT"));
     this.START();
   }
-  private handler = new dexHandler();
+  private worker: Worker<OrderData> | null = null;
+  private quoteWorker: Worker<QuoteRequest, QuoteResult> | null = null;
+  private timers: NodeJS.Timeout[] = [];
+  private metricsServer: Server | null = null;
+  // set by Shutdown, orders that were not submitted yet stop at their next stage boundary
+  private draining = false;
+  // failure handlers run outside the job, shutdown waits for them before closing prisma and redis
+  private pendingFailures: Set<Promise<void>> = new Set();
+  private quoteCacheRedis = new Redis(this.connection);
+  private quoteCache = new QuoteCache(this.quoteCacheRedis);
+  private handler = new dexHandler(
+    DexRegistry.fromConfig(() => this.ReportDexHealth()),
+    this.quoteCache
+  );
+  // every engine reports its own breakers, they are not shared between instances
+  private instanceId = `${hostname()}:${process.pid}`;
   private prisma = new PrismaClient();
+  // used to re-queue limit orders once their price is reached
+  private queue = new Queue(CONFIG.ORDER_QUEUE, {
+    connection: this.connection,
+    defaultJobOptions: {
+      attempts: CONFIG.MAX_RETRY,
+      backoff: CONFIG.BACK_OFF,
+    },
+  });
+  private limitWatcher = new LimitOrderWatcher(
+    this.handler,
+    (order) => this.TriggerLimitOrder(order),
+    (order) => this.ExpireLimitOrder(order),
+    (orderIds) => this.StillWatching(orderIds)
+  );
+  private orderState = new OrderStateMachine(this.prisma, async (update) => {
+    await this.redisPublisher.publish(CONFIG.ORDER_UPDATES_CHANNEL, JSON.stringify(update));
+  });
   private async START() {
-    const worker = new Worker(
-      CONFIG.ORDER_QUEUE,
-      async (job) => {
-        // Process the order execution job
-        console.log("Processing order execution job:", job.data, "Attempt:", job.attemptsMade + 1);
+    this.ServeMetrics();
+    registerQueueDepthGauge(this.queue);
+    await this.RestoreLimitOrders();
+    await this.ReconcileStuckOrders();
+    this.limitWatcher.start();
+    this.timers.push(
+      setInterval(() => this.FlushOutbox(), CONFIG.OUTBOX.POLL_INTERVAL),
+      setInterval(() => this.LogQuoteCacheStats(), CONFIG.QUOTE_CACHE.STATS_INTERVAL),
+      setInterval(() => this.ReportDexHealth(), CONFIG.DEX_HEALTH.REPORT_INTERVAL)
+    );
 
-        const result = await this.ExecuteOrder(job.data);
-        if (!result) {
-          throw new Error("Order execution failed");
-        }
-      },
-      { connection: this.connection }
+    // every line logged for the job, in dexHandler and the mock dexes too, carries the order's correlation id
+    const worker = new Worker<OrderData>(
+      CONFIG.ORDER_QUEUE,
+      (job, token) => withLogContext({ ...orderLogContext(job.data), jobId: job.id! }, () => this.ProcessOrderJob(job, token)),
+      { connection: this.connection, concurrency: CONFIG.WORKER.CONCURRENCY }
     );
 
+    this.worker = worker;
+
+    // POST /quote is answered here so quotes come from the same dexes the orders execute on
+    this.quoteWorker = new Worker<QuoteRequest, QuoteResult>(CONFIG.QUOTE_QUEUE, async (job) => await this.Quote(job.data), {
+      connection: this.connection,
+      concurrency: CONFIG.WORKER.CONCURRENCY,
+    });
+
     worker.on("completed", (job) => {
-      console.log(`Job with id ${job.id} has been completed`);
+      logger.info({ ...orderLogContext(job.data), jobId: job.id }, "job completed");
     });
 
-    worker.on("failed", async (job, err) => {
-      console.error(`Job ${job?.id} failed attempt ${job?.attemptsMade}: ${err.message}`);
+    worker.on("failed", (job, err) => {
+      if (!job) return;
+      const handled = withLogContext({ ...orderLogContext(job.data), jobId: job.id! }, () => this.HandleFailedJob(job, err)).finally(
+        () => this.pendingFailures.delete(handled)
+      );
+      this.pendingFailures.add(handled);
+    });
+  }
 
-      // Retry not exhausted → do nothing
-      if (job!.attemptsMade < job!.opts.attempts!) return;
+  private async ProcessOrderJob(job: Job<OrderData>, token: string | undefined) {
+    logger.info({ order: job.data, attempt: job.attemptsMade + 1 }, "processing order execution job");
 
-      // Now retries are fully exhausted → permanent failure
-      await this.prisma.orders.update({
-        where: { id: job!.data.orderId },
-        data: { status: "failed" },
-      });
+    const orderData: OrderData = job.data;
+    if (orderData.orderType === "limit" && !orderData.triggered) {
+      await this.ParkLimitOrder(orderData, "pending", job.id!);
+      return;
+    }
 
-      await this.publishOrderUpdate({
-        orderId: job!.data.orderId,
-        status: "failed",
-        message: "Order permanently failed after retries",
-      });
-    });
+    // bullmq groups are a pro feature, so fairness between accounts is kept with slots in redis
+    if (!(await this.AcquireAccountSlot(orderData.accountId, job.id!))) {
+      logger.info({ accountId: orderData.accountId }, "account is at its concurrency limit, delaying");
+      await job.moveToDelayed(Date.now() + CONFIG.WORKER.ACCOUNT_RETRY_DELAY, token);
+      throw new DelayedError();
+    }
+    try {
+      const result = await this.ExecuteOrder(orderData, job.id!);
+      if (!result) {
+        throw new Error("Order execution failed");
+      }
+    } catch (err) {
+      // the order keeps its status and the job is picked up again without using an attempt
+      if (err instanceof EngineDrainingError) {
+        logger.info("engine draining, returning job to the queue");
+        await job.moveToDelayed(Date.now(), token);
+        throw new DelayedError();
+      }
+      throw err;
+    } finally {
+      await this.ReleaseAccountSlot(orderData.accountId, job.id!);
+    }
   }
 
-  private async ExecuteOrder(orderData: OrderData): Promise<boolean> {
-    sleep(3000)
+  private async HandleFailedJob(job: Job<OrderData>, err: Error) {
+    const orderId: string = job.data.orderId;
+    logger.error({ err, attempt: job.attemptsMade }, "job attempt failed");
+
     try {
-      console.log("Executing order:", orderData);
-      await this.prisma.orders.update({
-        where: { id: orderData.orderId },
-        data: { status: "routing" },
-      });
+      await this.RecordAttempt(job.id!, job.attemptsMade, err);
 
-      await this.publishOrderUpdate({
-        orderId: orderData.orderId,
-        status: "routing",
-        message: "finding best route",
-      });
-      const bestRoute = await this.handler.getBestRoute(orderData.tokenIn, orderData.tokenOut, orderData.amount);
-      console.log(`${orderData.orderId} - Selected DEX: ${bestRoute.dex}, price = ${bestRoute.price}`);
+      // Retry not exhausted → the status stays put and the retry resumes from it
+      if (job.attemptsMade < job.opts.attempts!) {
+        const order = await this.prisma.orders.findUnique({ where: { id: orderId }, select: { status: true } });
+        if (order && !isTerminal(order.status)) {
+          await this.orderState.record(orderId, order.status, {
+            type: "failed",
+            message: `attempt ${job.attemptsMade} failed, retrying`,
+            error: err.message,
+            retrying: true,
+          });
+        }
+        jobRetries.inc();
+        return;
+      }
 
-      await this.prisma.orders.update({
-        where: { id: orderData.orderId },
-        data: { status: "building", selectedDex: bestRoute.dex },
-      });
-      // After processing, publish an update  about order execution start
-      await this.publishOrderUpdate({
-        orderId: orderData.orderId,
-        status: "building",
-        message: `building transaction on ${bestRoute.dex}`,
+      // Now retries are fully exhausted → dead-lettered, holding its funds and fills until an admin replays or closes it
+      await this.DeadLetter(job.id!, job.data, err);
+    } catch (failErr) {
+      logger.error({ err: failErr }, "Error recording order failure");
+    }
+  }
+
+  /**
+   * runs the order from wherever it stopped: anything before submitted is routed again,
+   * a submitted order finishes its stored plan so no swap is sent twice.
+   * the job routing the order holds it from then on, only its retries may route it again or resume its plan.
+   * throws when the job should be retried, or EngineDrainingError at a stage boundary while shutting down
+   */
+  private async ExecuteOrder(orderData: OrderData, jobId: string): Promise<boolean> {
+    const orderId = orderData.orderId;
+    try {
+      const order = await this.prisma.orders.findUnique({ where: { id: orderId }, include: { fills: true } });
+      if (!order || isTerminal(order.status)) {
+        logger.info({ status: order?.status ?? "missing" }, "skipping stale job");
+        return true;
+      }
+      if (order.status === "submitted") {
+        // another job may still be sending the swaps
+        if (order.ownerJobId !== jobId) {
+          logger.info({ ownerJobId: order.ownerJobId }, "skipping job, another job holds the submitted order");
+          return true;
+        }
+        logger.info("resuming submitted order");
+        return await this.ExecutePlan(orderData, order.routePlan as unknown as ExecutionPlan, order.fills, jobId);
+      }
+      if (await this.AbortIfCancelled(orderData)) return true;
+      if (this.draining) throw new EngineDrainingError();
+
+      const routed = await this.orderState.transition(
+        orderId,
+        ["pending", "watching", "routing", "building"],
+        "routing",
+        { message: "finding best route" },
+        { owner: jobId }
+      );
+      if (!routed) return true;
+
+      // cached quotes are a couple of seconds old at most, an order can ask to route on fresh ones
+      const options = { fresh: orderData.freshQuote ?? false };
+      const plan: ExecutionPlan = orderData.quote
+        ? { kind: "route", route: await this.RequoteRoute(orderData.quote) }
+        : orderData.split
+        ? { kind: "split", split: await this.handler.getSplitRoute(orderData.tokenIn, orderData.tokenOut, orderData.amount, options) }
+        : { kind: "route", route: await this.handler.getBestRoute(orderData.tokenIn, orderData.tokenOut, orderData.amount, options) };
+      const chosen = plan.kind === "split" ? plan.split : plan.route;
+      logger.info({ route: chosen.description, amountOut: chosen.amountOut }, "route selected");
+
+      const quotes =
+        plan.kind === "split"
+          ? plan.split.slices.map((slice) => ({ ...slice, tokenIn: orderData.tokenIn, tokenOut: orderData.tokenOut }))
+          : plan.route.legs;
+      for (const { dex, tokenIn, tokenOut, amountIn, quote } of quotes) {
+        await this.orderState.record(orderId, "routing", {
+          type: "quote_received",
+          message: `${dex} quoted ${quote.price} ${tokenOut} for ${amountIn} ${tokenIn}`,
+          dex,
+          tokenIn,
+          tokenOut,
+          amountIn,
+          price: quote.price,
+          fee: quote.fee,
+        });
+      }
+
+      if (await this.AbortIfCancelled(orderData)) return true;
+
+      // the price may have moved back between the trigger and routing
+      if (orderData.orderType === "limit" && !isLimitCrossed(orderData, chosen)) {
+        await this.ParkLimitOrder(orderData, "routing", jobId);
+        return true;
+      }
+
+      const dexes = plan.kind === "split" ? plan.split.slices.map((slice) => slice.dex) : plan.route.legs.map((leg) => leg.dex);
+      // net of fees, like the fills it is compared with
+      const quotedPrice = chosen.amountOut;
+      await this.orderState.record(orderId, "routing", {
+        type: "route_selected",
+        message: `selected ${chosen.description}`,
+        route: chosen.description,
+        dexes,
+        amountOut: chosen.amountOut,
       });
+      const built = await this.orderState.transition(
+        orderId,
+        "routing",
+        "building",
+        { message: `building transaction on ${chosen.description}` },
+        {
+          data: {
+            selectedDex: dexes.join(","),
+            quotedPrice,
+            route: chosen.description,
+            routePlan: plan as unknown as Prisma.InputJsonObject,
+          },
+          owner: jobId,
+        }
+      );
+      if (!built) return true;
       await sleep(3000);
+      // once submitted the swaps are sent, a draining engine hands the order back before that
+      if (this.draining) throw new EngineDrainingError();
 
-      await this.prisma.orders.update({
-        where: { id: orderData.orderId },
-        data: { status: "submitted" },
-      });
+      // the last chance to cancel, checked in the same write so a cancel cannot land in between
+      const submitted = await this.orderState.transition(
+        orderId,
+        "building",
+        "submitted",
+        { message: `submitted transaction on  network via ${[...new Set(dexes)].join(", ")}` },
+        { where: { cancelRequested: false }, owner: jobId }
+      );
+      if (!submitted) {
+        await this.AbortIfCancelled(orderData);
+        return true;
+      }
 
-      await this.publishOrderUpdate({
-        orderId: orderData.orderId,
-        status: "submitted",
-        message: `submitted transaction on  network via ${bestRoute.dex}`,
-      });
+      return await this.ExecutePlan(orderData, plan, [], jobId);
+    } catch (err) {
+      if (err instanceof EngineDrainingError) throw err;
+      logger.error({ err }, "Error executing order");
+      // the swap was reverted, retrying against a fresh quote would ignore the client's tolerance
+      if (err instanceof SlippageExceededError) {
+        const fills = await this.prisma.orderFill.findMany({ where: { orderId } });
+        await this.orderState.transition(
+          orderId,
+          "submitted",
+          fills.length > 0 ? "partially_filled" : "slippage_exceeded",
+          { message: "order rejected, fill was worse than the allowed slippage", error: err.message },
+          {
+            data: fills.length > 0
+              ? { ...aggregateFills(orderData, fills), errorMessage: err.message }
+              : { executedPrice: err.executedPrice, errorMessage: err.message },
+            owner: jobId,
+          }
+        );
+        return true;
+      }
+      // nothing was sent yet, retrying would only find the quote further out of date
+      if (err instanceof QuoteRejectedError) {
+        await this.orderState.transition(
+          orderId,
+          "routing",
+          "failed",
+          { message: "order rejected, the quote no longer holds", error: err.message },
+          { data: { errorMessage: err.message }, owner: jobId }
+        );
+        return true;
+      }
+      throw err;
+    }
+  }
 
-      await sleep(3000);
-      const result = await this.handler.executeSwap(bestRoute.dex, {
-        tokenIn: orderData.tokenIn,
-        tokenOut: orderData.tokenOut,
-        amount: orderData.amount,
-      });
-      await this.prisma.orders.update({
-        where: { id: orderData.orderId },
-        data: { status: "confirmed", txHash: result.txHash, executedPrice: result.executedPrice },
-      });
-      await this.publishOrderUpdate({
+  private async Quote({ tokenIn, tokenOut, amount }: QuoteRequest): Promise<QuoteResult> {
+    const [route, quotes] = await Promise.all([
+      this.handler.getBestRoute(tokenIn, tokenOut, amount),
+      // a pair no dex lists directly can still be quoted through an intermediate token
+      this.handler.getQuotes(tokenIn, tokenOut, amount).catch((err: Error) => {
+        logger.warn({ tokenIn, tokenOut, error: err.message }, "no direct quotes");
+        return [];
+      }),
+    ]);
+    return { route, quotes };
+  }
+
+  // a quoted order runs the quoted legs as long as the quote is live and the price has held
+  private async RequoteRoute(quote: OrderQuote): Promise<Route> {
+    if (isQuoteExpired(quote)) {
+      throw new QuoteRejectedError(`quote ${quote.id} expired at ${quote.expiresAt}`);
+    }
+    const route = await this.handler.requoteRoute(quote.route);
+    const floor = quote.route.amountOut * (1 - CONFIG.QUOTES.TOLERANCE_BPS / 10000);
+    if (route.amountOut < floor) {
+      throw new QuoteRejectedError(`live output ${route.amountOut} is below ${floor}, quoted ${quote.route.amountOut}`);
+    }
+    return route;
+  }
+
+  private async ExecutePlan(orderData: OrderData, plan: ExecutionPlan, fills: OrderFill[], jobId: string): Promise<boolean> {
+    if (plan.kind === "split") {
+      return await this.ExecuteSplit(orderData, plan.split, fills, jobId);
+    }
+    return await this.ExecuteRoute(orderData, plan.route, fills, jobId);
+  }
+
+  // legs run in sequence, each one swaps the previous leg's output, which the dex paid net of its fee.
+  // legs already filled are skipped
+  private async ExecuteRoute(orderData: OrderData, route: Route, fills: OrderFill[], jobId: string): Promise<boolean> {
+    const legs = route.legs;
+    const finalLeg = legs[legs.length - 1]!;
+    const filled = new Map(fills.map((fill) => [fill.step, fill]));
+
+    let amountIn = orderData.amount;
+    for (const [i, leg] of legs.entries()) {
+      let fill = filled.get(i);
+      if (!fill) {
+        await sleep(3000);
+        // only the final leg is held to the client's minimum output
+        const minAmountOut = leg === finalLeg ? getMinAmountOut(orderData, netPrice(leg.quote)) : undefined;
+        const result = await this.handler.executeSwap(
+          leg.dex,
+          {
+            tokenIn: leg.tokenIn,
+            tokenOut: leg.tokenOut,
+            amount: amountIn,
+            ...(minAmountOut !== undefined && { minAmountOut }),
+          },
+          leg.fallbackDex
+        );
+        fill = await this.RecordFill(orderData, i, result.dex, leg.tokenIn, leg.tokenOut, amountIn, result);
+      }
+      filled.set(i, fill);
+      amountIn = fill.executedPrice;
+    }
+
+    const lastFill = filled.get(legs.length - 1)!;
+    const confirmed = await this.orderState.transition(
+      orderData.orderId,
+      "submitted",
+      "confirmed",
+      { message: "transaction successfull" },
+      { data: { txHash: lastFill.txHash, ...aggregateFills(orderData, [...filled.values()]) }, owner: jobId }
+    );
+    if (confirmed) realizedSlippage.observe({ kind: "route" }, slippageBps(netPrice(finalLeg.quote), lastFill.executedPrice));
+    return true;
+  }
+
+  // slices go to several dexes at once, each fill is stored as it lands and the parent gets the aggregate
+  private async ExecuteSplit(orderData: OrderData, split: SplitRoute, fills: OrderFill[], jobId: string): Promise<boolean> {
+    const filled = new Set(fills.map((fill) => fill.step));
+    const quotedPrice = split.slices.reduce((sum, slice) => sum + netPrice(slice.quote), 0);
+    // the order's minimum output is shared out in proportion to each slice's quote
+    const minAmountOut = getMinAmountOut(orderData, quotedPrice);
+
+    const results = await Promise.allSettled(
+      split.slices.map(async (slice, i) => {
+        if (filled.has(i)) return;
+        const sliceMin = minAmountOut !== undefined ? (minAmountOut * netPrice(slice.quote)) / quotedPrice : undefined;
+        const result = await this.handler.executeSwap(slice.dex, {
+          tokenIn: orderData.tokenIn,
+          tokenOut: orderData.tokenOut,
+          amount: slice.amountIn,
+          ...(sliceMin !== undefined && { minAmountOut: sliceMin }),
+        });
+        await this.RecordFill(orderData, i, result.dex, orderData.tokenIn, orderData.tokenOut, slice.amountIn, result);
+      })
+    );
+
+    const errors = results.flatMap((result) => (result.status === "rejected" ? [result.reason as Error] : []));
+    // slippage is final, anything else is retried and only the missing slices are sent again
+    const slippage = errors.find((err) => err instanceof SlippageExceededError);
+    if (slippage) throw slippage;
+    if (errors.length > 0) throw errors[0];
+
+    const allFills = await this.prisma.orderFill.findMany({ where: { orderId: orderData.orderId } });
+    const totals = aggregateFills(orderData, allFills);
+    const confirmed = await this.orderState.transition(
+      orderData.orderId,
+      "submitted",
+      "confirmed",
+      { message: "transaction successfull" },
+      // each slice has its own txHash on its fill row
+      { data: totals, owner: jobId }
+    );
+    if (confirmed && totals.executedPrice !== undefined) {
+      realizedSlippage.observe({ kind: "split" }, slippageBps(quotedPrice, totals.executedPrice));
+    }
+    return true;
+  }
+
+  private async RecordFill(
+    orderData: OrderData,
+    step: number,
+    dex: string,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: number,
+    result: SwapResult
+  ): Promise<OrderFill> {
+    const fill = await this.prisma.orderFill.create({
+      data: {
         orderId: orderData.orderId,
-        status: "confirmed",
-        message: "transaction successfull",
-      });
-      return true;
+        step,
+        dex,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        executedPrice: result.executedPrice,
+        txHash: result.txHash,
+      },
+    });
+    await this.orderState.record(orderData.orderId, "submitted", {
+      type: "filled",
+      message: `filled ${amountIn} ${tokenIn} -> ${result.executedPrice} ${tokenOut} on ${dex}`,
+      step,
+      dex,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      executedPrice: result.executedPrice,
+      txHash: result.txHash,
+    });
+    return fill;
+  }
+
+  // cancellation requested through the api is honoured at every stage boundary before submission
+  private async AbortIfCancelled(orderData: OrderData): Promise<boolean> {
+    const order = await this.prisma.orders.findUnique({
+      where: { id: orderData.orderId },
+      select: { status: true, cancelRequested: true },
+    });
+    if (!order || (!order.cancelRequested && order.status !== "cancelled")) return false;
+    await this.orderState.transition(
+      orderData.orderId,
+      ["pending", "watching", "routing", "building"],
+      "cancelled",
+      { message: "order cancelled before submission" }
+    );
+    return true;
+  }
+
+  // every failed attempt is kept until the job succeeds or is dead-lettered, bullmq only keeps the last error
+  private async RecordAttempt(jobId: string, attempt: number, err: Error) {
+    const key = `engine:attempts:${jobId}`;
+    const record = { attempt, error: err.message, stack: err.stack ?? null, failedAt: new Date().toISOString() };
+    await this.redisPublisher.multi().rpush(key, JSON.stringify(record)).pexpire(key, CONFIG.DEAD_LETTER.ATTEMPTS_TTL).exec();
+  }
+
+  private async DeadLetter(jobId: string, orderData: OrderData, err: Error) {
+    const orderId = orderData.orderId;
+    const order = await this.prisma.orders.findUnique({ where: { id: orderId }, select: { status: true } });
+    if (!order || isTerminal(order.status) || order.status === "dead_lettered") return;
+    const key = `engine:attempts:${jobId}`;
+    const attempts = (await this.redisPublisher.lrange(key, 0, -1)).map((attempt) => JSON.parse(attempt));
+
+    const status = order.status as OrderStatus;
+    const deadLettered = await this.orderState.transition(
+      orderId,
+      status,
+      "dead_lettered",
+      { message: "retries exhausted, order moved to the dead-letter queue", error: err.message },
+      {
+        data: { errorMessage: err.message },
+        also: async (tx) => {
+          await tx.deadLetter.create({
+            data: {
+              orderId,
+              jobId,
+              payload: orderData as unknown as Prisma.InputJsonObject,
+              attempts,
+              fromStatus: status,
+            },
+          });
+        },
+      }
+    );
+    if (deadLettered) {
+      jobsDeadLettered.inc();
+      await this.redisPublisher.del(key);
+      logger.error({ orderId, from: status, attempts: attempts.length }, "order dead-lettered");
+    }
+  }
+
+  // checked in the same write as the cancel flag, a cancelled order is not parked
+  private async ParkLimitOrder(orderData: OrderData, from: OrderStatus, jobId: string) {
+    const parked = await this.orderState.transition(
+      orderData.orderId,
+      from,
+      "watching",
+      { message: `waiting for price to reach ${orderData.limitPrice} ${orderData.tokenOut} per ${orderData.tokenIn}` },
+      { where: { cancelRequested: false }, owner: jobId }
+    );
+    if (parked) {
+      this.limitWatcher.watch({ ...orderData, triggered: false });
+    } else {
+      await this.AbortIfCancelled(orderData);
+    }
+  }
+
+  // every engine watches every parked order, the id is derived from when it was parked so they queue it once
+  private async TriggerLimitOrder(orderData: OrderData) {
+    const order = await this.prisma.orders.findUnique({
+      where: { id: orderData.orderId },
+      select: { status: true, statusChangedAt: true },
+    });
+    if (order?.status !== "watching") return;
+    await this.queue.add("execute_order", { ...orderData, triggered: true }, {
+      jobId: `${orderData.orderId}-triggered-${order.statusChangedAt.getTime()}`,
+    });
+  }
+
+  private async ExpireLimitOrder(orderData: OrderData) {
+    await this.orderState.transition(orderData.orderId, "watching", "expired", {
+      message: "limit order expired before reaching target price",
+    });
+  }
+
+  // a cancel that raced the order being parked only set the flag, the order is cancelled here
+  private async StillWatching(orderIds: string[]): Promise<Set<string>> {
+    const orders = await this.prisma.orders.findMany({
+      where: { id: { in: orderIds }, status: "watching" },
+      select: { id: true, cancelRequested: true },
+    });
+    for (const order of orders.filter((order) => order.cancelRequested)) {
+      await this.orderState.transition(order.id, "watching", "cancelled", { message: "order cancelled before submission" });
+    }
+    return new Set(orders.filter((order) => !order.cancelRequested).map((order) => order.id));
+  }
+
+  // parked orders only live in memory, so pick them back up from the db after a restart
+  private async RestoreLimitOrders() {
+    try {
+      const orders = await this.prisma.orders.findMany({ where: { status: "watching" } });
+      orders.forEach((order) => this.limitWatcher.watch(this.toOrderData(order)));
+      logger.info({ orders: orders.length }, "restored watching limit orders");
     } catch (err) {
-      console.error("Error executing order:", err);
-      await this.publishOrderUpdate({
-        orderId: orderData.orderId,
-        status: "failed",
-        message: `order execution failed:`,
-        error: (err as Error).message,
+      logger.error({ err }, "Error restoring limit orders");
+    }
+  }
+
+  /**
+   * finds orders a crash or a lost job left unfinished: nothing in the queue for them and no change for STUCK_AFTER.
+   * an order that was not submitted has sent nothing, so it is queued again unless it was placed on a quote,
+   * which has long expired. a submitted order may have a swap in flight that was never recorded,
+   * so it is dead-lettered for an admin to check instead of being sent again
+   */
+  private async ReconcileStuckOrders() {
+    try {
+      const orders = await this.prisma.orders.findMany({
+        where: {
+          status: { in: ["pending", "routing", "building", "submitted"] },
+          updatedAt: { lt: new Date(Date.now() - CONFIG.RECONCILE.STUCK_AFTER) },
+        },
       });
-      return false;
+      if (orders.length === 0) return;
+      // jobs of other engines are still active, and jobs whose engine died come back through bullmq's stalled check
+      const jobs = await this.queue.getJobs(["active", "waiting", "delayed", "prioritized", "paused"]);
+      const queued = new Set(jobs.flatMap((job) => (job ? [job.data.orderId as string] : [])));
+      const stuck = orders.filter((order) => !queued.has(order.id));
+      for (const order of stuck) {
+        await withLogContext(orderLogContext({ orderId: order.id, correlationId: order.correlationId }), () =>
+          this.ReconcileOrder(order).catch((err) => logger.error({ err }, "Error reconciling order"))
+        );
+      }
+      logger.info({ orders: stuck.length }, "reconciled stuck orders");
+    } catch (err) {
+      logger.error({ err }, "Error reconciling stuck orders");
+    }
+  }
+
+  private async ReconcileOrder(order: Orders) {
+    const status = order.status as OrderStatus;
+    const orderData = this.toOrderData(order);
+    if (status === "submitted") {
+      // the original job id, so the attempts it recorded end up on the dead letter
+      await this.DeadLetter(order.id, orderData, new Error("no job was left to finish the submitted order"));
+      return;
+    }
+    if (order.quoteId) {
+      const error = `quote ${order.quoteId} expired while the order was stuck in ${status}`;
+      await this.orderState.transition(
+        order.id,
+        status,
+        "failed",
+        { message: "order rejected, the quote no longer holds", error },
+        { data: { errorMessage: error } }
+      );
+      return;
+    }
+    // the id is derived from the stuck state, the first engine to reconcile it hands the order over to that job
+    // so engines reconciling at the same time queue it once
+    const jobId = `${order.id}-reconcile-${order.updatedAt.getTime()}`;
+    if (!(await this.orderState.handOver(order.id, status, order.ownerJobId, jobId))) return;
+    // a limit order past pending was already triggered, it is checked against its limit again after routing
+    await this.queue.add(
+      "execute_order",
+      { ...orderData, ...(orderData.orderType === "limit" && status !== "pending" && { triggered: true }) },
+      { jobId }
+    );
+    logger.info({ status, since: order.updatedAt.toISOString() }, "re-queued stuck order");
+  }
+
+  private toOrderData(order: Orders): OrderData {
+    return {
+      orderId: order.id,
+      accountId: order.accountId,
+      tokenIn: order.tokenIn,
+      tokenOut: order.tokenOut,
+      amount: order.amount,
+      orderType: order.orderType as OrderType,
+      ...(order.limitPrice !== null && { limitPrice: order.limitPrice }),
+      ...(order.expiresAt && { expiresAt: order.expiresAt.toISOString() }),
+      ...(order.slippageBps !== null && { slippageBps: order.slippageBps }),
+      ...(order.minAmountOut !== null && { minAmountOut: order.minAmountOut }),
+      ...(order.split && { split: true }),
+      ...(order.freshQuote && { freshQuote: true }),
+      ...(order.correlationId && { correlationId: order.correlationId }),
+    };
+  }
+
+  /**
+   * an account may run ACCOUNT_CONCURRENCY orders at once across every engine instance.
+   * each running job holds a member of the account's sorted set scored by when it started,
+   * members older than ACCOUNT_LEASE were left by a crashed worker and are dropped
+   */
+  private async AcquireAccountSlot(accountId: string, jobId: string): Promise<boolean> {
+    const key = `engine:active:${accountId}`;
+    const now = Date.now();
+    const results = await this.redisPublisher
+      .multi()
+      .zremrangebyscore(key, "-inf", now - CONFIG.WORKER.ACCOUNT_LEASE)
+      .zadd(key, now, jobId)
+      .zcard(key)
+      .pexpire(key, CONFIG.WORKER.ACCOUNT_LEASE)
+      .exec();
+    const active = results?.[2]?.[1] as number;
+    if (active <= CONFIG.WORKER.ACCOUNT_CONCURRENCY) return true;
+    await this.redisPublisher.zrem(key, jobId);
+    return false;
+  }
+
+  private async ReleaseAccountSlot(accountId: string, jobId: string) {
+    try {
+      await this.redisPublisher.zrem(`engine:active:${accountId}`, jobId);
+    } catch (err) {
+      // the lease runs out on its own
+      logger.error({ err, jobId }, "Error releasing account slot");
     }
   }
-  private async publishOrderUpdate(updateData: any) {
+
+  private LogQuoteCacheStats() {
+    const { hits, misses, coalesced, bypassed, errors } = this.quoteCache.takeStats();
+    const total = hits + misses + coalesced;
+    if (total + bypassed === 0) return;
+    const hitRate = total > 0 ? Math.round(((hits + coalesced) / total) * 100) : 0;
+    // hitRate is the share served without a dex call
+    logger.info({ hits, misses, coalesced, bypassed, errors, hitRate }, "quote cache stats");
+  }
+
+  // read by GET /admin/dexes, a report that is not refreshed expires with the engine that wrote it
+  private async ReportDexHealth() {
+    try {
+      const report = { instance: this.instanceId, reportedAt: new Date().toISOString(), dexes: await this.handler.health() };
+      await this.redisPublisher.set(
+        `${CONFIG.DEX_HEALTH.KEY_PREFIX}:${this.instanceId}`,
+        JSON.stringify(report),
+        "PX",
+        CONFIG.DEX_HEALTH.REPORT_INTERVAL * 3
+      );
+    } catch (err) {
+      logger.error({ err }, "Error reporting dex health");
+    }
+  }
+
+  /**
+   * the engine has no api, prometheus scrapes /metrics and the orchestrator probes /healthz and /readyz here.
+   * a draining engine is still healthy but no longer ready, so it is taken out of rotation without a restart
+   */
+  private ServeMetrics() {
+    this.metricsServer = createServer(async (req, res) => {
+      const send = (status: number, body: string, contentType = "application/json") => {
+        res.writeHead(status, { "Content-Type": contentType });
+        res.end(body);
+      };
+      try {
+        const path = req.url?.split("?")[0];
+        if (path === "/metrics") return send(200, await registry.metrics(), registry.contentType);
+        if (path === "/healthz" || path === "/readyz") {
+          const { healthy, checks } = await checkDependencies(this.prisma, () => this.redisPublisher.ping());
+          const ok = healthy && !(path === "/readyz" && this.draining);
+          return send(ok ? 200 : 503, JSON.stringify({ status: ok ? "ok" : "error", draining: this.draining, checks }));
+        }
+        send(404, JSON.stringify({ status: "error", message: "Not found" }));
+      } catch (err) {
+        logger.error({ err }, "Error serving metrics");
+        send(500, JSON.stringify({ status: "error", message: "Internal server error" }));
+      }
+    });
+    // losing /metrics and the probes is not worth stopping order processing for, e.g. when the port is taken
+    this.metricsServer.on("error", (err) => {
+      logger.error({ err, port: CONFIG.METRICS.ENGINE_PORT }, "Engine metrics server failed, processing orders without it");
+    });
+    this.metricsServer.listen(CONFIG.METRICS.ENGINE_PORT, () => {
+      logger.info(`Engine metrics available at http://localhost:${CONFIG.METRICS.ENGINE_PORT}/metrics`);
+    });
+  }
+
+  /**
+   * stops taking jobs and waits up to DRAIN_TIMEOUT for the running ones: orders that were not submitted
+   * go back on the queue at their next stage boundary, submitted ones finish their swaps.
+   * a job still running after the timeout keeps its status and is picked up by another engine once its lock expires
+   */
+  private async Shutdown(signal: string) {
+    if (this.draining) return;
+    this.draining = true;
+    logger.info({ signal }, "draining engine");
+    this.limitWatcher.stop();
+    this.timers.forEach((timer) => clearInterval(timer));
+    try {
+      const closed = Promise.all([this.worker?.close(), this.quoteWorker?.close()]).then(() => true);
+      const drained = await Promise.race([closed, sleep(CONFIG.SHUTDOWN.DRAIN_TIMEOUT).then(() => false)]);
+      if (!drained) {
+        logger.error(`Jobs still running after ${CONFIG.SHUTDOWN.DRAIN_TIMEOUT}ms, closing anyway`);
+        await Promise.all([this.worker?.close(true), this.quoteWorker?.close(true)]);
+      }
+      await Promise.all(this.pendingFailures);
+      await this.redisPublisher.del(`${CONFIG.DEX_HEALTH.KEY_PREFIX}:${this.instanceId}`);
+      await this.queue.close();
+      this.metricsServer?.close();
+      await Promise.all([this.redisPublisher.quit(), this.quoteCacheRedis.quit()]);
+      await this.prisma.$disconnect();
+      logger.info("Engine stopped");
+      process.exit(0);
+    } catch (err) {
+      logger.error({ err }, "Error shutting down engine");
+      process.exit(1);
+    }
+  }
+
+  private async FlushOutbox() {
     try {
-      await this.redisPublisher.publish(CONFIG.ORDER_UPDATES_CHANNEL, JSON.stringify(updateData));
+      const published = await this.orderState.flushOutbox(CONFIG.OUTBOX.GRACE_PERIOD);
+      if (published > 0) logger.info({ events: published }, "published order events left in the outbox");
     } catch (err) {
-      console.error("Error publishing order update:", err);
+      logger.error({ err }, "Error flushing order event outbox");
     }
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * LimitOrderWatcher keeps parked limit orders in memory and re-quotes them on an interval.
+ * when the best net price reaches the limit the order is handed back to the engine,
+ * and orders that pass their expiry are dropped.
+ */
+
+import { CONFIG } from "../config/config.js";
+import type { OrderData, Route, SplitRoute } from "../lib/types.js";
+import type { dexHandler } from "./services.js";
+import { logger, orderLogContext, withLogContext } from "../lib/logger.js";
+
+export const isLimitCrossed = (order: OrderData, route: Route | SplitRoute) =>
+  route.amountOut / order.amount >= (order.limitPrice ?? Infinity);
+
+export class LimitOrderWatcher {
+  private orders: Map<string, OrderData> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private handler: dexHandler,
+    private onTrigger: (order: OrderData) => Promise<void>,
+    private onExpire: (order: OrderData) => Promise<void>,
+    // returns the ids that are still watching, anything else was cancelled elsewhere
+    private stillWatching: (orderIds: string[]) => Promise<Set<string>>
+  ) {}
+
+  watch(order: OrderData) {
+    this.orders.set(order.orderId, order);
+  }
+
+  unwatch(orderId: string) {
+    this.orders.delete(orderId);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(), CONFIG.LIMIT_ORDER.POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async check() {
+    // a round of quotes can take longer than the poll interval
+    if (this.checking || this.orders.size === 0) return;
+    this.checking = true;
+    try {
+      const watching = await this.stillWatching([...this.orders.keys()]);
+      [...this.orders.keys()].filter((id) => !watching.has(id)).forEach((id) => this.unwatch(id));
+      await Promise.all(
+        [...this.orders.values()].map((order) => withLogContext(orderLogContext(order), () => this.checkOrder(order)))
+      );
+    } catch (err) {
+      logger.error({ err }, "Error checking limit orders");
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async checkOrder(order: OrderData) {
+    try {
+      if (order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now()) {
+        this.unwatch(order.orderId);
+        await this.onExpire(order);
+        return;
+      }
+
+      const route = await this.handler.getBestRoute(order.tokenIn, order.tokenOut, order.amount);
+      // the order may have expired or been removed while we were quoting
+      if (!this.orders.has(order.orderId)) return;
+
+      if (isLimitCrossed(order, route)) {
+        logger.info({ limitPrice: order.limitPrice, route: route.description }, "limit price reached");
+        this.unwatch(order.orderId);
+        await this.onTrigger(order);
+      }
+    } catch (err) {
+      logger.error({ err }, "Error checking limit order");
+    }
+  }
+}
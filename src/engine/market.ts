@@ -0,0 +1,100 @@
+/**
+ * MockMarket simulates the on-chain pools behind the mock dexes.
+ * every dex gets its own constant-product pool per pair, seeded around CONFIG.MOCKS.REFERENCE_PRICES,
+ * so quotes depend on the pair and the order size and every swap moves the reserves.
+ */
+
+import { CONFIG } from "../config/config.js";
+import { SlippageExceededError } from "../lib/errors.js";
+
+interface Pool {
+  reserves: Record<string, number>;
+}
+
+// mulberry32, small and good enough to make a run reproducible from a seed
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export class MockMarket {
+  private pools: Map<string, Pool> = new Map();
+  private random: () => number;
+
+  constructor(seed: number | null = null) {
+    this.random = seed === null ? Math.random : seededRandom(seed);
+  }
+
+  // output of swapping amountIn on the pool before fees, without touching the reserves
+  quote(dex: string, depth: number, tokenIn: string, tokenOut: string, amountIn: number): number {
+    const pool = this.getPool(dex, depth, tokenIn, tokenOut);
+    return this.getAmountOut(pool, tokenIn, tokenOut, amountIn);
+  }
+
+  /**
+   * like quote, but other traders get to move the pool first and the swap updates the reserves.
+   * the dex keeps `fee` of the output in the pool, so the result is what the trader receives, the same
+   * net amount dexHandler quotes. a fill below minAmountOut reverts and leaves the reserves as they were
+   */
+  swap(
+    dex: string,
+    depth: number,
+    fee: number,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: number,
+    minAmountOut?: number
+  ): number {
+    const pool = this.getPool(dex, depth, tokenIn, tokenOut);
+    this.simulateBackgroundFlow(pool, tokenIn, tokenOut);
+
+    const amountOut = this.getAmountOut(pool, tokenIn, tokenOut, amountIn) * (1 - fee);
+    if (minAmountOut !== undefined && amountOut < minAmountOut) {
+      throw new SlippageExceededError(amountOut, minAmountOut);
+    }
+    pool.reserves[tokenIn]! += amountIn;
+    pool.reserves[tokenOut]! -= amountOut;
+    return amountOut;
+  }
+
+  private getAmountOut(pool: Pool, tokenIn: string, tokenOut: string, amountIn: number): number {
+    const reserveIn = pool.reserves[tokenIn]!;
+    const reserveOut = pool.reserves[tokenOut]!;
+    return (reserveOut * amountIn) / (reserveIn + amountIn);
+  }
+
+  private simulateBackgroundFlow(pool: Pool, tokenIn: string, tokenOut: string) {
+    const [from, to] = this.random() < 0.5 ? [tokenIn, tokenOut] : [tokenOut, tokenIn];
+    const amount = pool.reserves[from]! * CONFIG.MOCKS.BACKGROUND_FLOW * this.random();
+    const amountOut = this.getAmountOut(pool, from, to, amount);
+    pool.reserves[from]! += amount;
+    pool.reserves[to]! -= amountOut;
+  }
+
+  // pools are created on first use with `depth` usd on each side
+  private getPool(dex: string, depth: number, tokenIn: string, tokenOut: string): Pool {
+    const key = `${dex}:${[tokenIn, tokenOut].sort().join("/")}`;
+    let pool = this.pools.get(key);
+    if (!pool) {
+      const priceIn = CONFIG.MOCKS.REFERENCE_PRICES[tokenIn];
+      const priceOut = CONFIG.MOCKS.REFERENCE_PRICES[tokenOut];
+      if (priceIn === undefined || priceOut === undefined) {
+        throw new Error(`no reference price for ${tokenIn}/${tokenOut}`);
+      }
+      const skew = 1 + (this.random() * 2 - 1) * CONFIG.MOCKS.INITIAL_SKEW;
+      pool = {
+        reserves: {
+          [tokenIn]: (depth / priceIn) * skew,
+          [tokenOut]: depth / priceOut,
+        },
+      };
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+}
+
+// shared by every mock dex so a run with a fixed seed is deterministic end to end
+export const mockMarket = new MockMarket(CONFIG.MOCKS.SEED);
@@ -1,36 +1,91 @@
 import { randomBytes } from "crypto";
-import type { Quote, SwapParams, SwapResult } from "../lib/types.js";
+import type { DexAdapter, DexHealth, Quote, SwapParams, SwapResult, TokenPair } from "../lib/types.js";
 import { sleep } from "../lib/utils.js";
+import { SUPPORTED_TOKENS } from "../lib/schema.js";
+import { mockMarket, type MockMarket } from "./market.js";
+import { CONFIG } from "../config/config.js";
+import { logger } from "../lib/logger.js";
+
+interface MockDexOptions {
+  name: string;
+  fee: number;
+  // usd on each side of every pool this dex creates, shallower pools have more price impact
+  depth: number;
+  // defaults to every pair of supported tokens
+  pairs?: TokenPair[];
+  // defaults to the shared market, pass a seeded one for deterministic tests
+  market?: MockMarket;
+}
 
+// fee and depth of a built-in mock come from CONFIG.MOCKS.DEXES
+const mockSettings = (name: string) => {
+  const settings = CONFIG.MOCKS.DEXES[name];
+  if (!settings) throw new Error(`no CONFIG.MOCKS.DEXES entry for ${name}`);
+  return { name, ...settings };
+};
 
+const allPairs = (): TokenPair[] =>
+  SUPPORTED_TOKENS.flatMap((a, i) => SUPPORTED_TOKENS.slice(i + 1).map((b): TokenPair => [a, b]));
 
 /**
- * MeteoraMock simulates interaction with the Meteora DEX.
+ * MockDex is the shared simulation behind every mock adapter,
+ * each dex only differs in its fee, pool depth and the pairs it lists.
  */
-export class MeteoraMock {
-  private basePrice = 100;
+export class MockDex implements DexAdapter {
+  readonly name: string;
+  private pairs: TokenPair[];
+  private market: MockMarket;
+
+  constructor(private options: MockDexOptions) {
+    this.name = options.name;
+    this.pairs = options.pairs ?? allPairs();
+    this.market = options.market ?? mockMarket;
+  }
+
+  supportedPairs(): TokenPair[] {
+    return this.pairs;
+  }
+
+  async health(): Promise<DexHealth> {
+    return { healthy: true };
+  }
 
   async getQuote(tokenIn: string, tokenOut: string, amount: number): Promise<Quote> {
-    await sleep(2000);
+    await sleep(CONFIG.MOCKS.QUOTE_LATENCY);
 
-    const variance = 0.97 + Math.random() * 0.05;
-    const price = this.basePrice * variance * amount;
+    const price = this.market.quote(this.name, this.options.depth, tokenIn, tokenOut, amount);
+    logger.debug({ dex: this.name, tokenIn, tokenOut, amount, price }, "mock dex quoted");
 
     return {
-      dex: "meteora",
+      dex: this.name,
       price,
-      fee: 0.002,
+      fee: this.options.fee,
     };
   }
 
   async executeSwap(params: SwapParams): Promise<SwapResult> {
-    const executionTime = 2000 + Math.random() * 1000;
+    const { MIN, MAX } = CONFIG.MOCKS.SWAP_LATENCY;
+    const executionTime = MIN + Math.random() * (MAX - MIN);
     await sleep(executionTime);
 
-    const slippage = 0.995 + Math.random() * 0.01;
-    const executedPrice = this.basePrice * params.amount * slippage;
+    let executedPrice: number;
+    try {
+      executedPrice = this.market.swap(
+        this.name,
+        this.options.depth,
+        this.options.fee,
+        params.tokenIn,
+        params.tokenOut,
+        params.amount,
+        params.minAmountOut
+      );
+    } catch (err) {
+      logger.warn({ dex: this.name, ...params, error: (err as Error).message }, "mock dex reverted swap");
+      throw err;
+    }
 
     const txHash = this.generateTxHash();
+    logger.info({ dex: this.name, ...params, executedPrice, txHash, latencyMs: Math.round(executionTime) }, "mock dex swapped");
 
     return {
       txHash,
@@ -42,41 +97,47 @@ export class MeteoraMock {
     return randomBytes(32).toString("hex");
   }
 }
+
 /**
- * Raydium DEX Mock Service
+ * MeteoraMock simulates interaction with the Meteora DEX.
  */
-export class RaydiumMock {
-  private basePrice = 100;
-
-  async getQuote(tokenIn: string, tokenOut: string, amount: number): Promise<Quote> {
-    await sleep(2000);
-
-    const variance = 0.98 + Math.random() * 0.04;
-    const price = this.basePrice * variance * amount;
-
-    return {
-      dex: "raydium",
-      price,
-      fee: 0.003,
-    };
+export class MeteoraMock extends MockDex {
+  constructor() {
+    super(mockSettings("meteora"));
   }
+}
 
-  async executeSwap(params: SwapParams): Promise<SwapResult> {
-    const executionTime = 2000 + Math.random() * 1000;
-    await sleep(executionTime);
-
-    const slippage = 0.995 + Math.random() * 0.01;
-    const executedPrice = this.basePrice * params.amount * slippage;
-
-    const txHash = this.generateTxHash();
+/**
+ * Raydium DEX Mock Service
+ */
+export class RaydiumMock extends MockDex {
+  constructor() {
+    super(mockSettings("raydium"));
+  }
+}
 
-    return {
-      txHash,
-      executedPrice,
-    };
+/**
+ * Orca DEX Mock Service
+ */
+export class OrcaMock extends MockDex {
+  constructor() {
+    super(mockSettings("orca"));
   }
+}
 
-  private generateTxHash(): string {
-    return randomBytes(32).toString("hex");
+/**
+ * Phoenix is an order book dex, it only lists the major pairs against stables
+ */
+export class PhoenixMock extends MockDex {
+  constructor() {
+    super({
+      ...mockSettings("phoenix"),
+      pairs: [
+        ["SOL", "USDC"],
+        ["SOL", "USDT"],
+        ["ETH", "USDC"],
+        ["BTC", "USDC"],
+      ],
+    });
   }
 }
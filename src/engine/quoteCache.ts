@@ -0,0 +1,110 @@
+/**
+ * QuoteCache keeps dex quotes in redis for a moment so every engine instance can reuse them,
+ * and coalesces identical requests that are in flight in this process into one dex call.
+ * amounts are bucketed to a few significant digits so nearby sizes share an entry,
+ * a cached quote is scaled to the amount that was asked for.
+ */
+
+import type { Redis } from "ioredis";
+import { CONFIG } from "../config/config.js";
+import type { Quote } from "../lib/types.js";
+import { logger } from "../lib/logger.js";
+import { quoteCacheErrors, quoteCacheRequests } from "../lib/metrics.js";
+
+interface CachedQuote extends Quote {
+  // the exact amount the dex quoted, price is the output for it
+  amount: number;
+}
+
+export interface QuoteCacheStats {
+  hits: number;
+  misses: number;
+  // requests that waited on an identical request already in flight
+  coalesced: number;
+  // fresh quotes asked for by the order, they skip the cache but still refresh it
+  bypassed: number;
+  errors: number;
+}
+
+const amountBucket = (amount: number) => Number(amount.toPrecision(CONFIG.QUOTE_CACHE.AMOUNT_PRECISION));
+
+const scale = (cached: CachedQuote, amount: number): Quote => ({
+  dex: cached.dex,
+  price: (cached.price * amount) / cached.amount,
+  fee: cached.fee,
+});
+
+export class QuoteCache {
+  private inFlight: Map<string, Promise<CachedQuote>> = new Map();
+  private stats: QuoteCacheStats = { hits: 0, misses: 0, coalesced: 0, bypassed: 0, errors: 0 };
+
+  constructor(private redis: Redis) {}
+
+  async get(
+    dex: string,
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    fetch: () => Promise<Quote>,
+    fresh = false
+  ): Promise<Quote> {
+    const key = `quote:${dex}:${tokenIn}/${tokenOut}:${amountBucket(amount)}`;
+    if (fresh) {
+      this.stats.bypassed++;
+      quoteCacheRequests.inc({ result: "bypassed" });
+      return scale(await this.fetch(key, amount, fetch), amount);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      quoteCacheRequests.inc({ result: "coalesced" });
+      return scale(await pending, amount);
+    }
+
+    const cached = await this.read(key);
+    if (cached) {
+      this.stats.hits++;
+      quoteCacheRequests.inc({ result: "hit" });
+      return scale(cached, amount);
+    }
+
+    this.stats.misses++;
+    quoteCacheRequests.inc({ result: "miss" });
+    const request = this.fetch(key, amount, fetch).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return scale(await request, amount);
+  }
+
+  // counters since the last call, so each report covers one interval
+  takeStats(): QuoteCacheStats {
+    const stats = this.stats;
+    this.stats = { hits: 0, misses: 0, coalesced: 0, bypassed: 0, errors: 0 };
+    return stats;
+  }
+
+  private async fetch(key: string, amount: number, fetch: () => Promise<Quote>): Promise<CachedQuote> {
+    const quote = { ...(await fetch()), amount };
+    try {
+      await this.redis.set(key, JSON.stringify(quote), "PX", CONFIG.QUOTE_CACHE.TTL);
+    } catch (err) {
+      this.stats.errors++;
+      quoteCacheErrors.inc();
+      logger.error({ err, key }, "Error caching quote");
+    }
+    return quote;
+  }
+
+  // a cache that cannot be read is treated as empty, quoting carries on against the dex
+  private async read(key: string): Promise<CachedQuote | null> {
+    try {
+      const cached = await this.redis.get(key);
+      return cached ? (JSON.parse(cached) as CachedQuote) : null;
+    } catch (err) {
+      this.stats.errors++;
+      quoteCacheErrors.inc();
+      logger.error({ err, key }, "Error reading cached quote");
+      return null;
+    }
+  }
+}
@@ -1,48 +1,282 @@
-import type { Quote, SwapParams, SwapResult} from "../lib/types.js";
-import { MeteoraMock, RaydiumMock } from "./mock.js";
+import type {
+  DexHealthReport,
+  DexQuote,
+  Quote,
+  Route,
+  RouteLeg,
+  SplitRoute,
+  SplitSlice,
+  SwapParams,
+  SwapResult,
+} from "../lib/types.js";
+import { DexRegistry, type RegisteredAdapter } from "./dexRegistry.js";
+import { CONFIG } from "../config/config.js";
+import { netPrice, withTimeout } from "../lib/utils.js";
+import type { QuoteCache } from "./quoteCache.js";
+import { CircuitOpenError, SlippageExceededError } from "../lib/errors.js";
+import { dexQuoteLatency, dexQuoteResults } from "../lib/metrics.js";
+import { logger } from "../lib/logger.js";
 
+const describeRoute = (legs: RouteLeg[]) =>
+  legs.map((leg) => `${leg.tokenIn} -> ${leg.tokenOut} (${leg.dex})`).join(", ");
+
+// the dex that actually filled, it differs from the one asked for after a failover
+export type ExecutedSwap = SwapResult & { dex: string };
+
+// a dex that could not quote is left out, the reason is logged
+const fulfilled = <T>(results: PromiseSettledResult<T>[], what: string): T[] =>
+  results.flatMap((result) => {
+    if (result.status === "fulfilled") return [result.value];
+    logger.warn({ error: (result.reason as Error).message }, `dropping ${what}`);
+    return [];
+  });
+
+export interface QuoteOptions {
+  // skip the quote cache, the quotes still refresh it
+  fresh?: boolean;
+}
 
 export class dexHandler {
-  private raydium: RaydiumMock;
-  private meteora: MeteoraMock;
+  private registry: DexRegistry;
 
-  constructor() {
-    this.raydium = new RaydiumMock();
-    this.meteora = new MeteoraMock();
+  // without a cache every quote goes to the dex
+  constructor(registry: DexRegistry = DexRegistry.fromConfig(), private cache: QuoteCache | null = null) {
+    this.registry = registry;
   }
 
-  async getBestRoute(tokenIn: string, tokenOut: string, amount: number): Promise<Quote> {
-    console.log(`\nFetching quotes for ${amount} ${tokenIn} -> ${tokenOut}`);
+  /**
+   * compares the direct pair against 2-hop paths through CONFIG.ROUTING.INTERMEDIATE_TOKENS,
+   * every leg picks its own best dex so a route can mix dexes
+   */
+  async getBestRoute(tokenIn: string, tokenOut: string, amount: number, options: QuoteOptions = {}): Promise<Route> {
+    const paths = [
+      [tokenIn, tokenOut],
+      ...CONFIG.ROUTING.INTERMEDIATE_TOKENS
+        .filter((via) => via !== tokenIn && via !== tokenOut)
+        .map((via) => [tokenIn, via, tokenOut]),
+    ];
+
+    const routes = (await Promise.all(paths.map((path) => this.quoteRoute(path, amount, options)))).filter(
+      (route): route is Route => route !== null
+    );
+    if (routes.length === 0) {
+      throw new Error(`no route found for ${tokenIn}/${tokenOut}`);
+    }
+
+    const bestRoute = routes.reduce((best, route) => (route.amountOut > best.amountOut ? route : best));
 
-    const [raydiumQuote, meteoraQuote] = await Promise.all([
-      this.raydium.getQuote(tokenIn, tokenOut, amount),
-      this.meteora.getQuote(tokenIn, tokenOut, amount),
-    ]);
+    logger.info({ route: bestRoute.description, amountOut: bestRoute.amountOut }, "best route");
 
-    console.log('\nRaydium:', raydiumQuote);
-    console.log('Meteora:', meteoraQuote);
+    return bestRoute;
+  }
 
-    const raydiumNet = raydiumQuote.price * (1 - raydiumQuote.fee);
-    const meteoraNet = meteoraQuote.price * (1 - meteoraQuote.fee);
+  /**
+   * quotes every dex on the pair at each multiple of amount / SPLIT_SLICES, then allocates
+   * the slices to maximise the combined net output so price impact is spread across pools
+   */
+  async getSplitRoute(tokenIn: string, tokenOut: string, amount: number, options: QuoteOptions = {}): Promise<SplitRoute> {
+    logger.debug({ tokenIn, tokenOut, amount }, "fetching split quotes");
+
+    const adapters = this.registry.forPair(tokenIn, tokenOut);
+    if (adapters.length === 0) {
+      throw new Error(`no dex supports ${tokenIn}/${tokenOut}`);
+    }
+
+    const slices = CONFIG.ROUTING.SPLIT_SLICES;
+    const sliceAmount = amount / slices;
+    // curves[a][u - 1] is adapter a's quote for u slices, an adapter missing any of them is left out
+    const curves = fulfilled(
+      await Promise.allSettled(
+        adapters.map((registered) =>
+          Promise.all(
+            Array.from({ length: slices }, (_, i) =>
+              this.quote(registered, tokenIn, tokenOut, (i + 1) * sliceAmount, options)
+            )
+          )
+        )
+      ),
+      `split quotes for ${tokenIn}/${tokenOut}`
+    );
+    if (curves.length === 0) {
+      throw new Error(`no dex could quote ${tokenIn}/${tokenOut}`);
+    }
+
+    // best[k] is the highest output for k slices over the adapters seen so far,
+    // picks[a][k] is how many of those k slices went to adapter a
+    let best = [0, ...Array<number>(slices).fill(-Infinity)];
+    const picks: number[][] = [];
+    for (const curve of curves) {
+      const next = Array<number>(slices + 1).fill(-Infinity);
+      const pick = Array<number>(slices + 1).fill(0);
+      for (let k = 0; k <= slices; k++) {
+        for (let u = 0; u <= k; u++) {
+          const output = best[k - u]! + (u > 0 ? netPrice(curve[u - 1]!) : 0);
+          if (output > next[k]!) {
+            next[k] = output;
+            pick[k] = u;
+          }
+        }
+      }
+      best = next;
+      picks.push(pick);
+    }
+
+    const allocation: SplitSlice[] = [];
+    let remaining = slices;
+    for (let a = curves.length - 1; a >= 0; a--) {
+      const units = picks[a]![remaining]!;
+      if (units > 0) {
+        const quote = curves[a]![units - 1]!;
+        allocation.push({ dex: quote.dex, amountIn: units * sliceAmount, quote });
+      }
+      remaining -= units;
+    }
+
+    const description = `split ${allocation
+      .map((slice) => `${Math.round((slice.amountIn / amount) * 100)}% ${slice.dex}`)
+      .join(", ")}`;
+    logger.info({ route: description, amountOut: best[slices] }, "best split");
+
+    return { slices: allocation, amountOut: best[slices]!, description };
+  }
 
-    const bestQuote = raydiumNet > meteoraNet ? raydiumQuote : meteoraQuote;
+  async getBestQuote(tokenIn: string, tokenOut: string, amount: number, options: QuoteOptions = {}): Promise<Quote> {
+    const [best] = await this.getQuotes(tokenIn, tokenOut, amount, options);
+    const { amountOut, ...bestQuote } = best!;
 
-    console.log(`\nBest route: ${bestQuote.dex} (net price: ${bestQuote.price * (1 - bestQuote.fee)})`);
+    logger.info({ tokenIn, tokenOut, dex: bestQuote.dex, amountOut }, "best quote");
 
     return bestQuote;
   }
 
-  async executeSwap(dex: string, params: SwapParams): Promise<SwapResult> {
-    console.log(`\nExecuting swap on ${dex}`);
+  // every dex on the pair that answered, with its net output, best first
+  async getQuotes(tokenIn: string, tokenOut: string, amount: number, options: QuoteOptions = {}): Promise<DexQuote[]> {
+    logger.debug({ tokenIn, tokenOut, amount }, "fetching quotes");
 
-    if (dex === 'raydium') {
-      return await this.raydium.executeSwap(params);
-    } else {
-      return await this.meteora.executeSwap(params);
+    const adapters = this.registry.forPair(tokenIn, tokenOut);
+    if (adapters.length === 0) {
+      throw new Error(`no dex supports ${tokenIn}/${tokenOut}`);
     }
+
+    const quotes = fulfilled(
+      await Promise.allSettled(adapters.map((registered) => this.quote(registered, tokenIn, tokenOut, amount, options))),
+      `quote for ${tokenIn}/${tokenOut}`
+    );
+    if (quotes.length === 0) {
+      throw new Error(`no dex could quote ${tokenIn}/${tokenOut}`);
+    }
+
+    quotes.forEach((quote) => logger.debug({ tokenIn, tokenOut, amount, ...quote }, "quote"));
+
+    const ranked = quotes
+      .map((quote) => ({ ...quote, amountOut: netPrice(quote) }))
+      .sort((a, b) => b.amountOut - a.amountOut);
+    ranked.forEach((quote, i) => dexQuoteResults.inc({ dex: quote.dex, result: i === 0 ? "won" : "lost" }));
+    return ranked;
   }
-}
 
+  // the same legs on the same dexes at today's prices, for holding an order to an earlier quote, never cached
+  async requoteRoute(route: Route): Promise<Route> {
+    const legs: RouteLeg[] = [];
+    let amountIn = route.legs[0]!.amountIn;
+    for (const leg of route.legs) {
+      const quote = await this.quote(this.registry.get(leg.dex), leg.tokenIn, leg.tokenOut, amountIn, { fresh: true });
+      legs.push({ ...leg, amountIn, quote });
+      amountIn = netPrice(quote);
+    }
+    return { legs, amountOut: amountIn, description: route.description };
+  }
+
+  // a swap that errors is sent to the fallback dex if there is one, a slippage revert is final
+  async executeSwap(dex: string, params: SwapParams, fallbackDex?: string): Promise<ExecutedSwap> {
+    logger.info({ dex, ...params }, "executing swap");
+
+    try {
+      return { ...(await this.swap(dex, params)), dex };
+    } catch (err) {
+      if (err instanceof SlippageExceededError || !fallbackDex) throw err;
+      logger.warn({ dex, fallbackDex, error: (err as Error).message }, "swap failed, failing over");
+      return { ...(await this.swap(fallbackDex, params)), dex: fallbackDex };
+    }
+  }
 
+  // adapter health and circuit state of every dex, a health check that hangs counts as unhealthy
+  async health(): Promise<DexHealthReport[]> {
+    return await Promise.all(
+      this.registry.list().map(async ({ adapter, quoteTimeout, breaker }) => {
+        const health = await withTimeout(
+          adapter.health(),
+          quoteTimeout,
+          `${adapter.name} health check timed out after ${quoteTimeout}ms`
+        ).catch((err: Error) => ({ healthy: false, message: err.message }));
+        return { dex: adapter.name, ...health, circuit: breaker.snapshot() };
+      })
+    );
+  }
 
+  private async swap(dex: string, params: SwapParams): Promise<SwapResult> {
+    const { adapter, breaker } = this.registry.get(dex);
+    // a revert means the dex works, the price was just too far off
+    return await breaker.run(
+      () => adapter.executeSwap(params),
+      (err) => !(err instanceof SlippageExceededError)
+    );
+  }
 
+  // one dex's quote, through the cache when there is one. an open circuit skips the dex, cache included
+  private async quote(
+    { adapter, quoteTimeout, breaker }: RegisteredAdapter,
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    options: QuoteOptions
+  ): Promise<Quote> {
+    if (breaker.state === "open") throw new CircuitOpenError(adapter.name);
+    const fetch = () =>
+      breaker.run(async () => {
+        const end = dexQuoteLatency.startTimer({ dex: adapter.name });
+        try {
+          const quote = await withTimeout(
+            adapter.getQuote(tokenIn, tokenOut, amount),
+            quoteTimeout,
+            `${adapter.name} quote timed out after ${quoteTimeout}ms`
+          );
+          end({ outcome: "ok" });
+          return quote;
+        } catch (err) {
+          end({ outcome: "error" });
+          throw err;
+        }
+      });
+    if (!this.cache) return await fetch();
+    return await this.cache.get(adapter.name, tokenIn, tokenOut, amount, fetch, options.fresh);
+  }
+
+  // each leg is fed the previous leg's net output, returns null if any leg cannot be quoted
+  private async quoteRoute(path: string[], amount: number, options: QuoteOptions): Promise<Route | null> {
+    const legs: RouteLeg[] = [];
+    let amountIn = amount;
+    try {
+      for (let i = 0; i < path.length - 1; i++) {
+        const tokenIn = path[i]!;
+        const tokenOut = path[i + 1]!;
+        // the runner-up is kept as the leg's fallback in case the swap on the best dex fails
+        const [best, runnerUp] = await this.getQuotes(tokenIn, tokenOut, amountIn, options);
+        const { amountOut, ...quote } = best!;
+        legs.push({
+          dex: quote.dex,
+          tokenIn,
+          tokenOut,
+          amountIn,
+          quote,
+          ...(runnerUp && { fallbackDex: runnerUp.dex }),
+        });
+        amountIn = amountOut;
+      }
+    } catch (err) {
+      logger.debug({ path: path.join(" -> "), error: (err as Error).message }, "skipping route");
+      return null;
+    }
+    return { legs, amountOut: amountIn, description: describeRoute(legs) };
+  }
+}
@@ -0,0 +1,73 @@
+export class UnknownDexError extends Error {
+  constructor(public dex: string) {
+    super(`unknown dex: ${dex}`);
+    this.name = "UnknownDexError";
+  }
+}
+
+// the dex's circuit breaker is open, it is not called until the breaker half-opens
+export class CircuitOpenError extends Error {
+  constructor(public dex: string) {
+    super(`circuit open for ${dex}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * thrown by a dex when the fill would be below the order's minimum output,
+ * the swap is reverted so nothing was executed
+ */
+export class SlippageExceededError extends Error {
+  constructor(public executedPrice: number, public minAmountOut: number) {
+    super(`slippage exceeded: fill of ${executedPrice} is below minimum output ${minAmountOut}`);
+    this.name = "SlippageExceededError";
+  }
+}
+
+// the account does not have enough available funds to reserve for an order
+export class InsufficientBalanceError extends Error {
+  constructor(public token: string, public amount: number) {
+    super(`insufficient ${token} balance to reserve ${amount}`);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+// the account already has as many unfinished orders as it may, checked while the order is created
+export class InFlightLimitError extends Error {
+  constructor(public inFlight: number) {
+    super(`account already has ${inFlight} unfinished orders`);
+    this.name = "InFlightLimitError";
+  }
+}
+
+// a quote id that was tampered with, belongs to another account or does not match the order
+export class InvalidQuoteError extends Error {
+  constructor(reason: string) {
+    super(`invalid quote: ${reason}`);
+    this.name = "InvalidQuoteError";
+  }
+}
+
+// the quote expired or the live price moved too far from it, the order is not executed
+export class QuoteRejectedError extends Error {
+  constructor(reason: string) {
+    super(`quote rejected: ${reason}`);
+    this.name = "QuoteRejectedError";
+  }
+}
+
+// the engine is shutting down, the order stops at a stage boundary and its job goes back on the queue
+export class EngineDrainingError extends Error {
+  constructor() {
+    super("engine is shutting down");
+    this.name = "EngineDrainingError";
+  }
+}
+
+// a setting from the defaults, the config file or the environment is missing or invalid
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * dependency checks behind /healthz and /readyz of the api and the engine.
+ * a check that does not answer within CONFIG.HEALTH.TIMEOUT counts as down
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import { CONFIG } from "../config/config.js";
+import { withTimeout } from "./utils.js";
+
+export interface HealthReport {
+  healthy: boolean;
+  checks: Record<"postgres" | "redis", string>;
+}
+
+const check = async (name: string, probe: () => Promise<unknown>): Promise<string> => {
+  try {
+    await withTimeout(probe(), CONFIG.HEALTH.TIMEOUT, `${name} did not answer within ${CONFIG.HEALTH.TIMEOUT}ms`);
+    return "ok";
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+export const checkDependencies = async (prisma: PrismaClient, pingRedis: () => Promise<unknown>): Promise<HealthReport> => {
+  const [postgres, redisCheck] = await Promise.all([
+    check("postgres", () => prisma.$queryRaw`SELECT 1`),
+    check("redis", pingRedis),
+  ]);
+  return { healthy: postgres === "ok" && redisCheck === "ok", checks: { postgres, redis: redisCheck } };
+};
@@ -0,0 +1,136 @@
+/**
+ * the balances ledger. every movement of funds is a transaction of LedgerEntry rows that sums to zero
+ * for each token, and Balance keeps the running total of the account's available and reserved buckets.
+ * every function runs in the caller's transaction so funds move together with the order they belong to.
+ */
+
+import { randomUUID } from "crypto";
+import type { OrderFill, Orders, Prisma } from "@prisma/client";
+import { InsufficientBalanceError } from "./errors.js";
+
+type Tx = Prisma.TransactionClient;
+
+// available and reserved belong to the account, deposits and market are the other side of the entry
+type Bucket = "available" | "reserved" | "deposits" | "market";
+
+interface Posting {
+  accountId: string;
+  token: string;
+  bucket: Bucket;
+  amount: number;
+}
+
+const writeEntries = async (tx: Tx, kind: string, postings: Posting[], orderId: string | null) => {
+  const transactionId = randomUUID();
+  await tx.ledgerEntry.createMany({
+    data: postings
+      .filter((posting) => posting.amount !== 0)
+      .map((posting) => ({ transactionId, kind, orderId, ...posting })),
+  });
+};
+
+const applyToBalances = async (tx: Tx, postings: Posting[]) => {
+  for (const { accountId, token, bucket, amount } of postings) {
+    if (amount === 0 || (bucket !== "available" && bucket !== "reserved")) continue;
+    await tx.balance.upsert({
+      where: { accountId_token: { accountId, token } },
+      create: {
+        accountId,
+        token,
+        available: bucket === "available" ? amount : 0,
+        reserved: bucket === "reserved" ? amount : 0,
+      },
+      update: bucket === "available" ? { available: { increment: amount } } : { reserved: { increment: amount } },
+    });
+  }
+};
+
+const post = async (tx: Tx, kind: string, postings: Posting[], orderId: string | null = null) => {
+  await writeEntries(tx, kind, postings, orderId);
+  await applyToBalances(tx, postings);
+};
+
+// simulated funding, money comes in from outside the system
+export const deposit = async (tx: Tx, accountId: string, token: string, amount: number) => {
+  await post(tx, "deposit", [
+    { accountId, token, bucket: "deposits", amount: -amount },
+    { accountId, token, bucket: "available", amount },
+  ]);
+  return await tx.balance.findUniqueOrThrow({ where: { accountId_token: { accountId, token } } });
+};
+
+// holds `amount` for the order, the balance is only touched if enough is available
+export const reserve = async (tx: Tx, accountId: string, orderId: string, token: string, amount: number) => {
+  const { count } = await tx.balance.updateMany({
+    where: { accountId, token, available: { gte: amount } },
+    data: { available: { decrement: amount }, reserved: { increment: amount } },
+  });
+  if (count === 0) throw new InsufficientBalanceError(token, amount);
+  await writeEntries(
+    tx,
+    "reserve",
+    [
+      { accountId, token, bucket: "available", amount: -amount },
+      { accountId, token, bucket: "reserved", amount },
+    ],
+    orderId
+  );
+};
+
+// what the fills paid out per token, the dexes already kept their fees so this is what the account receives.
+// a multi-hop order that stopped half way holds the intermediate token
+const receivedTokens = (order: Orders, fills: OrderFill[]) => {
+  const received = new Map<string, number>();
+  const credit = (token: string, amount: number) => received.set(token, (received.get(token) ?? 0) + amount);
+  fills.filter((fill) => fill.tokenOut === order.tokenOut).forEach((fill) => credit(fill.tokenOut, fill.executedPrice));
+  const last = fills[fills.length - 1];
+  if (!order.split && last && last.tokenOut !== order.tokenOut) credit(last.tokenOut, last.executedPrice);
+  return received;
+};
+
+/**
+ * called once, when the order reaches a final status. whatever was swapped is settled against the hold
+ * and the rest of the hold is released, so a failed or cancelled order simply gets its funds back
+ */
+export const finalizeOrder = async (tx: Tx, orderId: string) => {
+  const order = await tx.orders.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { fills: { orderBy: { step: "asc" } } },
+  });
+  const held = await tx.ledgerEntry.aggregate({ where: { orderId, bucket: "reserved" }, _sum: { amount: true } });
+  const reserved = held._sum.amount ?? 0;
+  // orders placed before balances existed hold nothing
+  if (reserved <= 0) return;
+
+  const { accountId, tokenIn } = order;
+  const spent = order.fills.filter((fill) => fill.tokenIn === tokenIn).reduce((sum, fill) => sum + fill.amountIn, 0);
+  const consumed = Math.min(reserved, spent);
+  if (consumed > 0) {
+    await post(
+      tx,
+      "settle",
+      [
+        { accountId, token: tokenIn, bucket: "reserved", amount: -consumed },
+        { accountId, token: tokenIn, bucket: "market", amount: consumed },
+        ...[...receivedTokens(order, order.fills)].flatMap(([token, amount]): Posting[] => [
+          { accountId, token, bucket: "market", amount: -amount },
+          { accountId, token, bucket: "available", amount },
+        ]),
+      ],
+      orderId
+    );
+  }
+
+  const remaining = reserved - consumed;
+  if (remaining > 0) {
+    await post(
+      tx,
+      "release",
+      [
+        { accountId, token: tokenIn, bucket: "reserved", amount: -remaining },
+        { accountId, token: tokenIn, bucket: "available", amount: remaining },
+      ],
+      orderId
+    );
+  }
+};
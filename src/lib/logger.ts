@@ -0,0 +1,34 @@
+/**
+ * the structured logger shared by the api and the engine, one json object per line on stdout.
+ * work done for an order runs inside withLogContext, so every line logged under it, in dexHandler and the
+ * mock dexes too, carries the order's correlationId and one order can be followed across both processes
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { pino } from "pino";
+import { CONFIG, SERVICE } from "../config/config.js";
+
+export interface LogContext {
+  correlationId?: string;
+  orderId?: string;
+  jobId?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export const logger = pino({
+  level: CONFIG.LOG.LEVEL,
+  base: { service: SERVICE ?? "unknown", pid: process.pid },
+  timestamp: pino.stdTimeFunctions.isoTime,
+  mixin: () => ({ ...context.getStore() }),
+});
+
+// nested contexts add to the outer one, e.g. a job id under an order's correlation id
+export const withLogContext = <T>(fields: LogContext, run: () => T): T =>
+  context.run({ ...context.getStore(), ...fields }, run);
+
+// the fields of an order to log under, orders placed before correlation ids were added have none
+export const orderLogContext = (order: { orderId: string; correlationId?: string | null }): LogContext => ({
+  orderId: order.orderId,
+  ...(order.correlationId && { correlationId: order.correlationId }),
+});
@@ -0,0 +1,108 @@
+/**
+ * prometheus metrics, the api serves them on /metrics and the engine on its own metrics port.
+ * each process has its own registry, gauges that read shared state (orders, queue) are registered
+ * by the process that owns the connection and are read at scrape time
+ */
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from "prom-client";
+import type { Queue } from "bullmq";
+import type { PrismaClient } from "@prisma/client";
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: "edx_" });
+
+// time between the previous status change and entering `stage`, so routing includes the wait in the queue
+export const orderStageLatency = new Histogram({
+  name: "edx_order_stage_latency_seconds",
+  help: "Seconds from the previous status change until the order entered the stage",
+  labelNames: ["stage"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300],
+  registers: [registry],
+});
+
+// only calls that reached the dex, cached quotes are not timed
+export const dexQuoteLatency = new Histogram({
+  name: "edx_dex_quote_latency_seconds",
+  help: "Seconds a dex took to answer a quote request",
+  labelNames: ["dex", "outcome"] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+// every comparison of quotes on a pair, the dex with the best net output wins. win rate is won / (won + lost)
+export const dexQuoteResults = new Counter({
+  name: "edx_dex_quote_results_total",
+  help: "Quote comparisons a dex took part in, by whether it had the best net output",
+  labelNames: ["dex", "result"] as const,
+  registers: [registry],
+});
+
+// positive when the fill was below the quote, negative for price improvement
+export const realizedSlippage = new Histogram({
+  name: "edx_realized_slippage_bps",
+  help: "Difference between quoted and executed output of confirmed orders, in basis points of the quote",
+  labelNames: ["kind"] as const,
+  buckets: [-100, -25, -10, 0, 5, 10, 25, 50, 100, 250, 500],
+  registers: [registry],
+});
+
+// hit rate is hit / (hit + miss), coalesced requests waited on one in flight and bypassed ones asked for fresh quotes
+export const quoteCacheRequests = new Counter({
+  name: "edx_quote_cache_requests_total",
+  help: "Dex quotes asked of the quote cache, by how the cache answered",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+export const quoteCacheErrors = new Counter({
+  name: "edx_quote_cache_errors_total",
+  help: "Quote cache reads and writes that failed against redis",
+  registers: [registry],
+});
+
+export const jobRetries = new Counter({
+  name: "edx_order_job_retries_total",
+  help: "Failed order job attempts that will be retried",
+  registers: [registry],
+});
+
+export const jobsDeadLettered = new Counter({
+  name: "edx_order_jobs_dead_lettered_total",
+  help: "Orders moved to the dead-letter queue after their retries ran out or they were found stuck",
+  registers: [registry],
+});
+
+export const websocketConnections = new Gauge({
+  name: "edx_websocket_connections",
+  help: "Open websocket connections on this api instance",
+  labelNames: ["endpoint"] as const,
+  registers: [registry],
+});
+
+export const slippageBps = (quoted: number, executed: number) => ((quoted - executed) / quoted) * 10000;
+
+// counted by status in postgres at scrape time, every instance reports the same totals
+export const registerOrderStatusGauge = (prisma: PrismaClient) =>
+  new Gauge({
+    name: "edx_orders",
+    help: "Orders by status",
+    labelNames: ["status"] as const,
+    registers: [registry],
+    async collect() {
+      const counts = await prisma.orders.groupBy({ by: ["status"], _count: { _all: true } });
+      this.reset();
+      counts.forEach(({ status, _count }) => this.set({ status }, _count._all));
+    },
+  });
+
+export const registerQueueDepthGauge = (queue: Queue) =>
+  new Gauge({
+    name: "edx_queue_jobs",
+    help: "Jobs in the queue by state",
+    labelNames: ["queue", "state"] as const,
+    registers: [registry],
+    async collect() {
+      const counts = await queue.getJobCounts("waiting", "active", "delayed", "prioritized", "failed");
+      Object.entries(counts).forEach(([state, count]) => this.set({ queue: queue.name, state }, count));
+    },
+  });
@@ -0,0 +1,205 @@
+/**
+ * the order state machine, every status change in the api and the engine goes through here.
+ * a transition is a compare-and-set on the current status, and on the job holding the order once it is routed.
+ * it is written together with its OrderEvent,
+ * the event row doubles as an outbox so an update that could not be published is retried later,
+ * and reaching a final status settles or releases the order's funds in the same transaction.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { OrderEventPayloadSchema, type OrderEventPayload, type OrderUpdate } from "./protocol.js";
+import { toOrderUpdate, type OrderEventWithOrder } from "./utils.js";
+import { finalizeOrder } from "./ledger.js";
+import { orderStageLatency } from "./metrics.js";
+import { logger } from "./logger.js";
+
+export type OrderStatus =
+  | "pending"
+  | "watching"
+  | "routing"
+  | "building"
+  | "submitted"
+  | "confirmed"
+  | "failed"
+  | "expired"
+  | "cancelled"
+  | "slippage_exceeded"
+  | "partially_filled"
+  | "dead_lettered";
+
+// once an order is submitted it can only finish. an order whose retries ran out is dead-lettered
+// with its funds still held, an admin either replays it from the status it stopped in or closes it
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["routing", "watching", "cancelled", "failed", "dead_lettered"],
+  watching: ["routing", "expired", "cancelled", "failed", "dead_lettered"],
+  routing: ["building", "watching", "cancelled", "failed", "dead_lettered"],
+  building: ["submitted", "cancelled", "failed", "dead_lettered"],
+  submitted: ["confirmed", "slippage_exceeded", "partially_filled", "failed", "dead_lettered"],
+  dead_lettered: ["pending", "watching", "routing", "building", "submitted", "failed", "partially_filled", "cancelled"],
+  confirmed: [],
+  failed: [],
+  expired: [],
+  cancelled: [],
+  slippage_exceeded: [],
+  partially_filled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(TRANSITIONS) as OrderStatus[];
+export const TERMINAL_STATUSES = ORDER_STATUSES.filter((status) => TRANSITIONS[status].length === 0);
+export const ACTIVE_STATUSES = ORDER_STATUSES.filter((status) => TRANSITIONS[status].length > 0);
+
+export const isTerminal = (status: string) => TERMINAL_STATUSES.includes(status as OrderStatus);
+
+// a job holds the order from routing on, see TransitionOptions.owner
+const HELD_STATUSES: OrderStatus[] = ["routing", "building", "submitted"];
+
+// only a retry of the job holding the order may route it again, a duplicate job would take over a running order
+const RETRY_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  routing: ["routing"],
+  building: ["routing"],
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => TRANSITIONS[from].includes(to);
+
+const canRetry = (from: OrderStatus, to: OrderStatus) => RETRY_TRANSITIONS[from]?.includes(to) ?? false;
+
+// a transition carrying an error is reported as a failed message, any other as status_changed
+interface TransitionEvent {
+  message: string;
+  error?: string;
+}
+
+interface TransitionOptions {
+  // extra columns written with the status
+  data?: Prisma.OrdersUpdateManyMutationInput;
+  // extra conditions the order must still meet, e.g. no cancellation requested
+  where?: Prisma.OrdersWhereInput;
+  // other writes that must commit together with the transition, only run if it applies
+  also?: (tx: Prisma.TransactionClient) => Promise<void>;
+  // the job running the order. entering routing records it as the order's ownerJobId, after that
+  // the transition only applies while it still holds the order, and it may take the retry transitions
+  owner?: string;
+}
+
+// validated before it is written, the type specific fields go to the data column
+const toEventData = (orderId: string, status: string, payload: OrderEventPayload): Prisma.OrderEventUncheckedCreateInput => {
+  const { type, message, ...fields } = OrderEventPayloadSchema.parse(payload);
+  const { error, ...data } = fields as { error?: string };
+  return {
+    orderId,
+    type,
+    status,
+    message,
+    error: error ?? null,
+    ...(Object.keys(data).length > 0 && { data: data as Prisma.InputJsonObject }),
+  };
+};
+
+// the order's account and pair go into every message
+const withOrder = { order: { select: { accountId: true, tokenIn: true, tokenOut: true, correlationId: true } } } as const;
+
+export class OrderStateMachine {
+  constructor(private prisma: PrismaClient, private publish: (update: OrderUpdate) => Promise<void>) {}
+
+  /**
+   * moves the order to `to` only if it is still in one of `from`.
+   * returns false when another worker or the api changed it first, the caller should then back off
+   */
+  async transition(
+    orderId: string,
+    from: OrderStatus | OrderStatus[],
+    to: OrderStatus,
+    event: TransitionEvent,
+    options: TransitionOptions = {}
+  ): Promise<boolean> {
+    const fromStatuses = Array.isArray(from) ? from : [from];
+    const { owner } = options;
+    const illegal = fromStatuses.filter(
+      (status) => !canTransition(status, to) && !(owner !== undefined && canRetry(status, to))
+    );
+    if (illegal.length > 0) {
+      throw new Error(`illegal order transition ${illegal.join("|")} -> ${to}`);
+    }
+
+    const payload: OrderEventPayload =
+      event.error !== undefined
+        ? { type: "failed", message: event.message, error: event.error }
+        : { type: "status_changed", message: event.message };
+    const eventData = toEventData(orderId, to, payload);
+    const changedAt = new Date();
+    const held = owner !== undefined ? fromStatuses.filter((status) => HELD_STATUSES.includes(status)) : [];
+    const free = fromStatuses.filter((status) => !held.includes(status));
+    const statusWhere: Prisma.OrdersWhereInput =
+      held.length === 0
+        ? { status: { in: fromStatuses } }
+        : { OR: [{ status: { in: free } }, { status: { in: held }, ownerJobId: owner! }] };
+
+    const changed = await this.prisma.$transaction(async (tx) => {
+      // only read for the stage latency, the update below is the compare-and-set
+      const previous = await tx.orders.findUnique({ where: { id: orderId }, select: { statusChangedAt: true } });
+      const { count } = await tx.orders.updateMany({
+        where: { AND: [{ ...options.where, id: orderId }, statusWhere] },
+        data: {
+          ...options.data,
+          ...(owner !== undefined && to === "routing" && { ownerJobId: owner }),
+          status: to,
+          statusChangedAt: changedAt,
+        },
+      });
+      if (count === 0) return null;
+      // funds move in the same transaction, so an order never finishes with its hold still in place
+      if (isTerminal(to)) await finalizeOrder(tx, orderId);
+      await options.also?.(tx);
+      const created = await tx.orderEvent.create({ data: eventData, include: withOrder });
+      return { created, since: previous!.statusChangedAt };
+    });
+    if (!changed) {
+      logger.info({ orderId, to, from: fromStatuses }, "skipped transition, the order changed first");
+      return false;
+    }
+    orderStageLatency.observe({ stage: to }, (changedAt.getTime() - changed.since.getTime()) / 1000);
+    await this.deliver(changed.created);
+    return true;
+  }
+
+  /**
+   * gives a held order to another job without changing its status, e.g. when the job holding it was lost.
+   * returns false when the order moved on or another job took it first
+   */
+  async handOver(orderId: string, status: OrderStatus, from: string | null, to: string): Promise<boolean> {
+    const { count } = await this.prisma.orders.updateMany({
+      where: { id: orderId, status, ownerJobId: from },
+      data: { ownerJobId: to },
+    });
+    return count > 0;
+  }
+
+  // progress that does not change the status, e.g. a quote or a fill
+  async record(orderId: string, status: string, payload: OrderEventPayload) {
+    const created = await this.prisma.orderEvent.create({ data: toEventData(orderId, status, payload), include: withOrder });
+    await this.deliver(created);
+  }
+
+  // publishes events that were committed but never made it to redis, e.g. the process died after commit
+  async flushOutbox(olderThanMs: number): Promise<number> {
+    const events = await this.prisma.orderEvent.findMany({
+      where: { publishedAt: null, createdAt: { lt: new Date(Date.now() - olderThanMs) } },
+      orderBy: { id: "asc" },
+      take: 100,
+      include: withOrder,
+    });
+    for (const event of events) {
+      await this.deliver(event);
+    }
+    return events.length;
+  }
+
+  private async deliver(event: OrderEventWithOrder) {
+    try {
+      await this.publish(toOrderUpdate(event));
+      await this.prisma.orderEvent.update({ where: { id: event.id }, data: { publishedAt: new Date() } });
+    } catch (err) {
+      logger.error({ err, orderId: event.orderId, eventId: event.id }, "Error publishing order event, left in the outbox");
+    }
+  }
+}
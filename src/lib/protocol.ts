@@ -0,0 +1,140 @@
+/**
+ * the order update protocol, every message on ORDER_UPDATES_CHANNEL and the order websocket is one of these.
+ * `seq` is the id of the OrderEvent behind the message so it only grows, clients can drop anything they already saw.
+ * bump PROTOCOL_VERSION whenever a message changes shape in a way old clients cannot read.
+ */
+
+import { z } from "zod";
+
+export const PROTOCOL_VERSION = 1;
+
+const envelope = {
+  version: z.literal(PROTOCOL_VERSION),
+  seq: z.number().int().nonnegative(),
+  orderId: z.string(),
+  // account and tokenIn/tokenOut of the order, account and pair subscriptions are matched on them
+  accountId: z.string(),
+  pair: z.string(),
+  // order status at the time of the message
+  status: z.string(),
+  timestamp: z.iso.datetime(),
+  // of the request that placed the order, quote it when asking about the order. orders from before it was added have none
+  correlationId: z.string().optional(),
+};
+
+// payloads as the engine and the api record them, the envelope is added from the OrderEvent row
+const StatusChangedPayload = z.object({
+  type: z.literal("status_changed"),
+  message: z.string(),
+});
+
+const QuoteReceivedPayload = z.object({
+  type: z.literal("quote_received"),
+  message: z.string(),
+  dex: z.string(),
+  tokenIn: z.string(),
+  tokenOut: z.string(),
+  amountIn: z.number(),
+  price: z.number(),
+  fee: z.number(),
+});
+
+const RouteSelectedPayload = z.object({
+  type: z.literal("route_selected"),
+  message: z.string(),
+  route: z.string(),
+  dexes: z.array(z.string()),
+  // expected net output in tokenOut
+  amountOut: z.number(),
+});
+
+const FilledPayload = z.object({
+  type: z.literal("filled"),
+  message: z.string(),
+  // leg of a multi-hop route or slice of a split order
+  step: z.number().int().nonnegative(),
+  dex: z.string(),
+  tokenIn: z.string(),
+  tokenOut: z.string(),
+  amountIn: z.number(),
+  executedPrice: z.number(),
+  txHash: z.string(),
+});
+
+const FailedPayload = z.object({
+  type: z.literal("failed"),
+  message: z.string(),
+  error: z.string(),
+  // true when the engine will try the order again
+  retrying: z.boolean().default(false),
+});
+
+export const OrderEventPayloadSchema = z.discriminatedUnion("type", [
+  StatusChangedPayload,
+  QuoteReceivedPayload,
+  RouteSelectedPayload,
+  FilledPayload,
+  FailedPayload,
+]);
+
+export const OrderUpdateSchema = z.discriminatedUnion("type", [
+  StatusChangedPayload.extend(envelope),
+  QuoteReceivedPayload.extend(envelope),
+  RouteSelectedPayload.extend(envelope),
+  FilledPayload.extend(envelope),
+  FailedPayload.extend(envelope),
+]);
+
+// first message on every websocket, the order as stored when the client connected
+export const SnapshotMessageSchema = z.object({
+  ...envelope,
+  type: z.literal("snapshot"),
+  order: z.object({
+    tokenIn: z.string(),
+    tokenOut: z.string(),
+    amount: z.number(),
+    orderType: z.string(),
+    limitPrice: z.number().nullable(),
+    expiresAt: z.iso.datetime().nullable(),
+    selectedDex: z.string().nullable(),
+    route: z.string().nullable(),
+    quotedPrice: z.number().nullable(),
+    executedPrice: z.number().nullable(),
+    averagePrice: z.number().nullable(),
+    txHash: z.string().nullable(),
+    errorMessage: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  }),
+});
+
+export const ServerMessageSchema = z.discriminatedUnion("type", [SnapshotMessageSchema, ...OrderUpdateSchema.options]);
+
+// what a client may send on the multiplexed /ws endpoint, every topic only covers the client's own orders
+export const TopicSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("order"), orderId: z.string() }),
+  z.object({ kind: z.literal("account") }),
+  z.object({ kind: z.literal("pair"), tokenIn: z.string(), tokenOut: z.string() }),
+]);
+
+export const ClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), topic: TopicSchema }),
+  z.object({ type: z.literal("unsubscribe"), topic: TopicSchema }),
+  z.object({ type: z.literal("ping") }),
+]);
+
+// replies to client messages, these are not order events so they carry no seq
+export const ControlMessageSchema = z.discriminatedUnion("type", [
+  z.object({ version: z.literal(PROTOCOL_VERSION), type: z.literal("subscribed"), topic: TopicSchema }),
+  z.object({ version: z.literal(PROTOCOL_VERSION), type: z.literal("unsubscribed"), topic: TopicSchema }),
+  z.object({ version: z.literal(PROTOCOL_VERSION), type: z.literal("pong") }),
+  z.object({ version: z.literal(PROTOCOL_VERSION), type: z.literal("error"), message: z.string(), topic: TopicSchema.optional() }),
+]);
+
+export type OrderEventPayload = z.input<typeof OrderEventPayloadSchema>;
+export type OrderUpdate = z.infer<typeof OrderUpdateSchema>;
+export type SnapshotMessage = z.infer<typeof SnapshotMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+export type Topic = z.infer<typeof TopicSchema>;
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ControlMessage = z.infer<typeof ControlMessageSchema>;
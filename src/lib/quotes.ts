@@ -0,0 +1,45 @@
+/**
+ * signed quotes, the quote id is the quote itself plus an hmac over it so nothing has to be stored.
+ * /execute-order verifies the signature before trusting the route inside, a quote is only good
+ * for the account, pair and amount it was issued for and until it expires.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { CONFIG } from "../config/config.js";
+import { InvalidQuoteError } from "./errors.js";
+import type { QuoteRequest, Route } from "./types.js";
+
+export interface SignedQuote extends QuoteRequest {
+  id: string;
+  accountId: string;
+  route: Route;
+  expiresAt: string;
+}
+
+const sign = (body: string) => createHmac("sha256", CONFIG.QUOTES.SECRET).update(body).digest();
+
+export const issueQuote = (accountId: string, request: QuoteRequest, route: Route) => {
+  const quote: SignedQuote = {
+    id: randomUUID(),
+    accountId,
+    ...request,
+    route,
+    expiresAt: new Date(Date.now() + CONFIG.QUOTES.TTL).toISOString(),
+  };
+  const body = Buffer.from(JSON.stringify(quote)).toString("base64url");
+  return { quote, quoteId: `${body}.${sign(body).toString("base64url")}` };
+};
+
+// throws InvalidQuoteError unless the id was issued by us, expiry is left to the caller
+export const verifyQuote = (quoteId: string): SignedQuote => {
+  const [body, signature, ...rest] = quoteId.split(".");
+  if (!body || !signature || rest.length > 0) throw new InvalidQuoteError("malformed quote id");
+  const expected = sign(body);
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new InvalidQuoteError("signature does not match");
+  }
+  return JSON.parse(Buffer.from(body, "base64url").toString()) as SignedQuote;
+};
+
+export const isQuoteExpired = (quote: { expiresAt: string }) => new Date(quote.expiresAt).getTime() <= Date.now();
@@ -1,4 +1,6 @@
 import { z} from "zod";
+import { CONFIG } from "../config/config.js";
+import { ORDER_STATUSES } from "./orderState.js";
 
 
 
@@ -8,12 +10,86 @@ import { z} from "zod";
 //   amount: number;
 // }
 
-const tokens = ['SOL', 'USDC', 'USDT', 'BTC', 'ETH'];
+export const SUPPORTED_TOKENS = ['SOL', 'USDC', 'USDT', 'BTC', 'ETH'];
+const tokens = SUPPORTED_TOKENS;
 
 export const RequestSwapSchema = z.object({
   tokenIn: z.enum(tokens as [string, ...string[]] , "tokenIn must be one of the supported tokens"),
   tokenOut: z.enum(tokens as [string, ...string[]], "tokenOut must be one of the supported tokens"),
   amount: z.number().positive("amount must be a positive number"),
+  orderType: z.enum(["swap", "limit"], "orderType must be either swap or limit").default("swap"),
+  // minimum net price per unit of tokenIn (in tokenOut) at which a limit order may execute
+  limitPrice: z.number().positive("limitPrice must be a positive number").optional(),
+  expiresAt: z.iso.datetime("expiresAt must be an ISO 8601 datetime").optional(),
+  // slippage tolerance against the quoted price, in basis points
+  slippageBps: z.number().int().min(0).max(10000, "slippageBps must be between 0 and 10000").optional(),
+  // absolute minimum amount of tokenOut the order must fill for
+  minAmountOut: z.number().positive("minAmountOut must be a positive number").optional(),
+  split: z.boolean().optional(),
+  // skip the engine's quote cache when routing this order
+  freshQuote: z.boolean().optional(),
+  // from POST /quote, the order then executes the quoted route
+  quoteId: z.string().min(1, "quoteId must not be empty").optional(),
+}).refine((data) => data.orderType !== "limit" || data.limitPrice !== undefined, {
+  message: "limitPrice is required for limit orders",
+  path: ["limitPrice"],
+}).refine((data) => data.quoteId === undefined || (data.orderType === "swap" && !data.split), {
+  message: "quoteId can only be used with swap orders that are not split",
+  path: ["quoteId"],
 });
 
+export const QuoteRequestSchema = z.object({
+  tokenIn: z.enum(tokens as [string, ...string[]] , "tokenIn must be one of the supported tokens"),
+  tokenOut: z.enum(tokens as [string, ...string[]], "tokenOut must be one of the supported tokens"),
+  amount: z.number().positive("amount must be a positive number"),
+}).refine((data) => data.tokenIn !== data.tokenOut, {
+  message: "tokenIn and tokenOut cannot be the same",
+  path: ["tokenOut"],
+});
+
+export const ListOrdersQuerySchema = z.object({
+  status: z.enum(ORDER_STATUSES as [string, ...string[]], "status must be a known order status").optional(),
+  tokenIn: z.enum(tokens as [string, ...string[]], "tokenIn must be one of the supported tokens").optional(),
+  tokenOut: z.enum(tokens as [string, ...string[]], "tokenOut must be one of the supported tokens").optional(),
+  from: z.iso.datetime("from must be an ISO 8601 datetime").optional(),
+  to: z.iso.datetime("to must be an ISO 8601 datetime").optional(),
+  // id of the last order on the previous page
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100, "limit must be between 1 and 100").default(20),
+});
+
+export const DepositSchema = z.object({
+  token: z.enum(tokens as [string, ...string[]], "token must be one of the supported tokens"),
+  amount: z.number().positive("amount must be a positive number"),
+});
+
+export const LedgerQuerySchema = z.object({
+  token: z.enum(tokens as [string, ...string[]], "token must be one of the supported tokens").optional(),
+  orderId: z.string().optional(),
+  // id of the last entry on the previous page
+  cursor: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(100, "limit must be between 1 and 100").default(50),
+});
+
+export const DeadLetterQuerySchema = z.object({
+  status: z.enum(["open", "replayed", "closed"], "status must be open, replayed or closed").optional(),
+  // id of the last dead letter on the previous page
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100, "limit must be between 1 and 100").default(20),
+});
+
+export const CloseDeadLetterSchema = z.object({
+  // recorded as the order's error and in the audit log
+  reason: z.string().min(1).max(500, "reason must be at most 500 characters").optional(),
+});
 
+export const LongPollQuerySchema = z.object({
+  // seq of the last update the client has, 0 returns the whole history
+  after: z.coerce.number().int().min(0, "after must be a non-negative integer").default(0),
+  timeout: z.coerce
+    .number()
+    .int()
+    .min(1000)
+    .max(CONFIG.STREAMING.LONG_POLL_MAX_TIMEOUT, "timeout is too long")
+    .default(CONFIG.STREAMING.LONG_POLL_TIMEOUT),
+});
@@ -4,19 +4,131 @@ export interface Quote {
   fee: number;
 }
 
+export interface RouteLeg {
+  dex: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  quote: Quote;
+  // runner-up dex on the leg's pair, the swap fails over to it if the chosen dex errors
+  fallbackDex?: string;
+}
+
+// a direct swap has a single leg, multi-hop routes go through intermediate tokens
+export interface Route {
+  legs: RouteLeg[];
+  // net output of the final leg after every leg's fee
+  amountOut: number;
+  description: string;
+}
+
+// one dex's quote for the whole amount on the direct pair, amountOut is net of its fee
+export interface DexQuote extends Quote {
+  amountOut: number;
+}
+
+// what the engine answers a quote request with, the route is what a quoted order executes
+export interface QuoteResult {
+  route: Route;
+  // every dex on the direct pair, best first
+  quotes: DexQuote[];
+}
+
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amount: number;
+}
+
+// the part of a verified quote the engine needs to hold the order to it
+export interface OrderQuote {
+  id: string;
+  route: Route;
+  expiresAt: string;
+}
+
+export interface SplitSlice {
+  dex: string;
+  amountIn: number;
+  quote: Quote;
+}
+
+// one order divided across several dexes on the direct pair
+export interface SplitRoute {
+  slices: SplitSlice[];
+  // combined net output of every slice
+  amountOut: number;
+  description: string;
+}
+
+// what was decided when the order was routed, stored so a retry can finish it without routing again
+export type ExecutionPlan = { kind: "route"; route: Route } | { kind: "split"; split: SplitRoute };
+
 export interface SwapParams {
   tokenIn: string;
   tokenOut: string;
   amount: number;
+  // the dex reverts the swap if it would fill below this
+  minAmountOut?: number;
 }
 
 export interface SwapResult {
   txHash: string;
   executedPrice: number;
 }
+
+// pairs are unordered, ["SOL", "USDC"] covers both directions
+export type TokenPair = [string, string];
+
+export interface DexHealth {
+  healthy: boolean;
+  message?: string;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  // failures since the last success
+  failures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+export interface DexHealthReport extends DexHealth {
+  dex: string;
+  circuit: CircuitSnapshot;
+}
+
+export interface DexAdapter {
+  readonly name: string;
+  getQuote(tokenIn: string, tokenOut: string, amount: number): Promise<Quote>;
+  executeSwap(params: SwapParams): Promise<SwapResult>;
+  supportedPairs(): TokenPair[];
+  health(): Promise<DexHealth>;
+}
+
+export type OrderType = "swap" | "limit";
+
 export interface OrderData {
   orderId: string;
+  accountId: string;
   tokenIn: string;
   tokenOut: string;
   amount: number;
+  orderType: OrderType;
+  limitPrice?: number;
+  expiresAt?: string;
+  slippageBps?: number;
+  minAmountOut?: number;
+  // divide the order across dexes instead of sending it all to the best one
+  split?: boolean;
+  // route on quotes straight from the dexes instead of cached ones
+  freshQuote?: boolean;
+  // executes the quoted route instead of routing again
+  quote?: OrderQuote;
+  // set when a parked limit order is re-queued because its price was reached
+  triggered?: boolean;
+  // the id of the /execute-order request, every log line about the order carries it in both processes
+  correlationId?: string;
 }
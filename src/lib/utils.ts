@@ -1 +1,96 @@
+import type { OrderEvent, OrderFill, Orders } from "@prisma/client";
+import type { OrderData, Quote } from "./types.js";
+import {
+  OrderUpdateSchema,
+  PROTOCOL_VERSION,
+  SnapshotMessageSchema,
+  type OrderUpdate,
+  type SnapshotMessage,
+} from "./protocol.js";
+
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// rejects with `message` if the promise has not settled within ms
+export const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// price the trader actually receives after the dex fee is taken
+export const netPrice = (quote: Quote) => quote.price * (1 - quote.fee);
+
+// strictest minimum output allowed by the order's slippageBps and minAmountOut, if it set either
+export const getMinAmountOut = (order: OrderData, quotedPrice: number): number | undefined => {
+  const limits: number[] = [];
+  if (order.slippageBps !== undefined) limits.push(quotedPrice * (1 - order.slippageBps / 10000));
+  if (order.minAmountOut !== undefined) limits.push(order.minAmountOut);
+  return limits.length ? Math.max(...limits) : undefined;
+};
+
+// total output in tokenOut and the average price per unit of tokenIn across the fills that reached tokenOut
+export const aggregateFills = (order: Pick<OrderData, "tokenIn" | "tokenOut">, fills: OrderFill[]) => {
+  const executedPrice = fills
+    .filter((fill) => fill.tokenOut === order.tokenOut)
+    .reduce((sum, fill) => sum + fill.executedPrice, 0);
+  const amountIn = fills
+    .filter((fill) => fill.tokenIn === order.tokenIn)
+    .reduce((sum, fill) => sum + fill.amountIn, 0);
+  return executedPrice > 0 ? { executedPrice, averagePrice: executedPrice / amountIn } : {};
+};
+
+export const toPair = (tokenIn: string, tokenOut: string) => `${tokenIn}/${tokenOut}`;
+
+export type OrderEventWithOrder = OrderEvent & {
+  order: Pick<Orders, "accountId" | "tokenIn" | "tokenOut" | "correlationId">;
+};
+
+// throws if the stored event does not make a valid message, so nothing malformed is published
+export const toOrderUpdate = (event: OrderEventWithOrder): OrderUpdate =>
+  OrderUpdateSchema.parse({
+    ...(event.data as object | null),
+    type: event.type,
+    message: event.message,
+    ...(event.error !== null && { error: event.error }),
+    version: PROTOCOL_VERSION,
+    seq: event.id,
+    orderId: event.orderId,
+    accountId: event.order.accountId,
+    pair: toPair(event.order.tokenIn, event.order.tokenOut),
+    status: event.status,
+    timestamp: event.createdAt.toISOString(),
+    ...(event.order.correlationId !== null && { correlationId: event.order.correlationId }),
+  });
+
+// seq is the last event the order reflects, anything after it is news to the client
+export const toSnapshotMessage = (order: Orders, seq: number): SnapshotMessage =>
+  SnapshotMessageSchema.parse({
+    version: PROTOCOL_VERSION,
+    type: "snapshot",
+    seq,
+    orderId: order.id,
+    accountId: order.accountId,
+    pair: toPair(order.tokenIn, order.tokenOut),
+    status: order.status,
+    timestamp: new Date().toISOString(),
+    ...(order.correlationId !== null && { correlationId: order.correlationId }),
+    order: {
+      tokenIn: order.tokenIn,
+      tokenOut: order.tokenOut,
+      amount: order.amount,
+      orderType: order.orderType,
+      limitPrice: order.limitPrice,
+      expiresAt: order.expiresAt?.toISOString() ?? null,
+      selectedDex: order.selectedDex,
+      route: order.route,
+      quotedPrice: order.quotedPrice,
+      executedPrice: order.executedPrice,
+      averagePrice: order.averagePrice,
+      txHash: order.txHash,
+      errorMessage: order.errorMessage,
+      createdAt: order.createdAt.toISOString(),
+      updatedAt: order.updatedAt.toISOString(),
+    },
+  });
@@ -0,0 +1,75 @@
+/**
+ * creates an account with one api key, or adds a key to an existing account.
+ *   npm run account:create -- <name> [--burst <n>] [--per-second <n>] [--max-in-flight <n>] [--admin]
+ *   npm run account:create -- --account <accountId>
+ * the limit flags override CONFIG.RATE_LIMIT for the new account, --admin lets it call the /admin routes.
+ * the key is printed once, only its hash is stored
+ */
+
+import { parseArgs } from "util";
+import { PrismaClient } from "@prisma/client";
+import { generateApiKey } from "../api/auth.js";
+
+const prisma = new PrismaClient();
+
+const USAGE =
+  "usage: account:create <name> [--burst <n>] [--per-second <n>] [--max-in-flight <n>] [--admin] | account:create --account <accountId>";
+
+const usageError = (message?: string): never => {
+  if (message) console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+};
+
+// a limit flag must be a positive number, the burst and the in-flight cap a whole one
+const optionalLimit = (flag: string, value: string | undefined, integer = false) => {
+  if (value === undefined) return null;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit <= 0 || (integer && !Number.isInteger(limit))) {
+    usageError(`--${flag} must be a positive ${integer ? "whole number" : "number"}, got "${value}"`);
+  }
+  return limit;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      account: { type: "string" },
+      burst: { type: "string" },
+      "per-second": { type: "string" },
+      "max-in-flight": { type: "string" },
+      admin: { type: "boolean" },
+    },
+  });
+  const [name] = positionals;
+  if (!name && !values.account) usageError();
+  const limits = {
+    orderBurst: optionalLimit("burst", values.burst, true),
+    ordersPerSecond: optionalLimit("per-second", values["per-second"]),
+    maxInFlightOrders: optionalLimit("max-in-flight", values["max-in-flight"], true),
+  };
+
+  const account = values.account
+    ? await prisma.account.findUniqueOrThrow({ where: { id: values.account } })
+    : await prisma.account.create({
+        data: {
+          name: name!,
+          ...limits,
+          isAdmin: values.admin ?? false,
+        },
+      });
+
+  const { key, keyHash, prefix } = generateApiKey();
+  await prisma.apiKey.create({ data: { accountId: account.id, keyHash, prefix } });
+
+  console.log(`account: ${account.id} (${account.name})`);
+  console.log(`api key: ${key}`);
+};
+
+main()
+  .catch((err) => {
+    console.error("Error creating api key:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,183 @@
+import { CircuitBreaker } from "../engine/circuitBreaker.js";
+import { DexRegistry } from "../engine/dexRegistry.js";
+import { dexHandler } from "../engine/services.js";
+import { CONFIG } from "../config/config.js";
+import { CircuitOpenError, SlippageExceededError } from "../lib/errors.js";
+import type { DexAdapter, SwapParams, SwapResult } from "../lib/types.js";
+
+const { FAILURE_THRESHOLD, OPEN_DURATION } = CONFIG.CIRCUIT_BREAKER;
+
+// the breaker reads the clock through Date.now, tests move it by hand
+const realNow = Date.now;
+let now = 0;
+const advance = (ms: number) => {
+  now += ms;
+};
+
+beforeEach(() => {
+  now = realNow();
+  Date.now = () => now;
+});
+
+afterEach(() => {
+  Date.now = realNow;
+});
+
+const fail = () => Promise.reject(new Error("dex down"));
+const succeed = () => Promise.resolve("ok");
+
+const trip = async (breaker: CircuitBreaker) => {
+  for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+    await expect(breaker.run(fail)).rejects.toThrow("dex down");
+  }
+};
+
+describe("CircuitBreaker", () => {
+  test("should open after FAILURE_THRESHOLD failures in a row and refuse calls", async () => {
+    const breaker = new CircuitBreaker("raydium");
+    for (let i = 0; i < FAILURE_THRESHOLD - 1; i++) {
+      await expect(breaker.run(fail)).rejects.toThrow("dex down");
+    }
+    expect(breaker.state).toBe("closed");
+
+    await expect(breaker.run(fail)).rejects.toThrow("dex down");
+    expect(breaker.state).toBe("open");
+
+    let called = false;
+    const call = async () => {
+      called = true;
+      return "ok";
+    };
+    await expect(breaker.run(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(called).toBe(false);
+  });
+
+  test("should only count failures in a row", async () => {
+    const breaker = new CircuitBreaker("raydium");
+    for (const _ of [1, 2]) {
+      for (let i = 0; i < FAILURE_THRESHOLD - 1; i++) {
+        await expect(breaker.run(fail)).rejects.toThrow("dex down");
+      }
+      await breaker.run(succeed);
+    }
+    expect(breaker.state).toBe("closed");
+  });
+
+  test("should leave the breaker alone for errors that do not count as failures", async () => {
+    const breaker = new CircuitBreaker("raydium");
+    const revert = () => Promise.reject(new SlippageExceededError(90, 100));
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await expect(breaker.run(revert, (err) => !(err instanceof SlippageExceededError))).rejects.toThrow("slippage");
+    }
+    expect(breaker.snapshot().failures).toBe(0);
+  });
+
+  test("should half-open after OPEN_DURATION and close again when the probe succeeds", async () => {
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker("raydium", (changed) => changes.push(changed.state));
+    await trip(breaker);
+
+    advance(OPEN_DURATION);
+    expect(breaker.state).toBe("half_open");
+    await expect(breaker.run(succeed)).resolves.toBe("ok");
+
+    expect(breaker.snapshot()).toEqual({ state: "closed", failures: 0, openedAt: null, lastError: "dex down" });
+    expect(changes).toEqual(["open", "closed"]);
+  });
+
+  test("should let a single probe through while half-open", async () => {
+    const breaker = new CircuitBreaker("raydium");
+    await trip(breaker);
+    advance(OPEN_DURATION);
+
+    let finishProbe!: (value: string) => void;
+    const probe = breaker.run(() => new Promise<string>((resolve) => (finishProbe = resolve)));
+    await expect(breaker.run(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe("ok");
+    await expect(probe).resolves.toBe("ok");
+    expect(breaker.state).toBe("closed");
+  });
+
+  test("should re-open for another full period when the probe fails", async () => {
+    const breaker = new CircuitBreaker("raydium");
+    await trip(breaker);
+    advance(OPEN_DURATION);
+
+    await expect(breaker.run(fail)).rejects.toThrow("dex down");
+    expect(breaker.state).toBe("open");
+    advance(OPEN_DURATION - 1);
+    expect(breaker.state).toBe("open");
+    advance(1);
+    expect(breaker.state).toBe("half_open");
+  });
+});
+
+// an adapter whose swaps succeed or fail as the test says
+class FakeDex implements DexAdapter {
+  swaps: SwapParams[] = [];
+
+  constructor(readonly name: string, private outcome: () => Promise<SwapResult>) {}
+
+  async getQuote(tokenIn: string, tokenOut: string, amount: number) {
+    return { dex: this.name, price: amount, fee: 0 };
+  }
+
+  async executeSwap(params: SwapParams) {
+    this.swaps.push(params);
+    return await this.outcome();
+  }
+
+  supportedPairs(): [string, string][] {
+    return [["SOL", "USDC"]];
+  }
+
+  async health() {
+    return { healthy: true };
+  }
+}
+
+describe("dexHandler.executeSwap failover", () => {
+  const params: SwapParams = { tokenIn: "SOL", tokenOut: "USDC", amount: 1 };
+  const filled = (txHash: string) => () => Promise.resolve({ txHash, executedPrice: 150 });
+
+  const setup = (primaryOutcome: () => Promise<SwapResult>) => {
+    const primary = new FakeDex("primary", primaryOutcome);
+    const fallback = new FakeDex("fallback", filled("fallback-tx"));
+    const registry = new DexRegistry();
+    registry.register(primary, 1000);
+    registry.register(fallback, 1000);
+    return { primary, fallback, registry, handler: new dexHandler(registry) };
+  };
+
+  test("should fill on the chosen dex when it works", async () => {
+    const { fallback, handler } = setup(filled("primary-tx"));
+    await expect(handler.executeSwap("primary", params, "fallback")).resolves.toMatchObject({ dex: "primary", txHash: "primary-tx" });
+    expect(fallback.swaps).toHaveLength(0);
+  });
+
+  test("should fail over to the fallback dex when the swap errors", async () => {
+    const { fallback, handler } = setup(() => Promise.reject(new Error("rpc timeout")));
+    await expect(handler.executeSwap("primary", params, "fallback")).resolves.toMatchObject({ dex: "fallback", txHash: "fallback-tx" });
+    expect(fallback.swaps).toEqual([params]);
+  });
+
+  test("should skip a dex whose circuit is open and fill on the fallback", async () => {
+    const { primary, registry, handler } = setup(() => Promise.reject(new Error("rpc timeout")));
+    await trip(registry.get("primary").breaker);
+
+    await expect(handler.executeSwap("primary", params, "fallback")).resolves.toMatchObject({ dex: "fallback" });
+    expect(primary.swaps).toHaveLength(0);
+  });
+
+  test("should not fail over a slippage revert", async () => {
+    const { fallback, handler } = setup(() => Promise.reject(new SlippageExceededError(90, 100)));
+    await expect(handler.executeSwap("primary", params, "fallback")).rejects.toBeInstanceOf(SlippageExceededError);
+    expect(fallback.swaps).toHaveLength(0);
+  });
+
+  test("should surface the error when there is no fallback", async () => {
+    const { handler } = setup(() => Promise.reject(new Error("rpc timeout")));
+    await expect(handler.executeSwap("primary", params)).rejects.toThrow("rpc timeout");
+  });
+});
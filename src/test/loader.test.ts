@@ -0,0 +1,118 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, readService } from "../config/loader.js";
+import { CONFIG } from "../config/config.js";
+import { ConfigError } from "../lib/errors.js";
+
+// the config this process loaded stands in for the defaults, every test passes its own env
+const defaults = CONFIG;
+const base = { NODE_ENV: "test" };
+
+let dir: string;
+const configFile = (contents: unknown) => {
+  const file = join(dir, `config-${Math.random()}.json`);
+  writeFileSync(file, typeof contents === "string" ? contents : JSON.stringify(contents));
+  return file;
+};
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "edx-config-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadConfig", () => {
+  test("should return the defaults when nothing overrides them", () => {
+    expect(loadConfig(defaults, "api", base)).toEqual(defaults);
+  });
+
+  test("should apply defaults < file < file service section < env < service env", () => {
+    const CONFIG_FILE = configFile({
+      WORKER: { CONCURRENCY: 20 },
+      services: { engine: { WORKER: { CONCURRENCY: 30 } } },
+    });
+    const concurrency = (service: "api" | "engine", env: NodeJS.ProcessEnv) =>
+      loadConfig(defaults, service, { ...base, CONFIG_FILE, ...env }).WORKER.CONCURRENCY;
+
+    expect(concurrency("api", {})).toBe(20);
+    expect(concurrency("engine", {})).toBe(30);
+    expect(concurrency("engine", { EDX__WORKER__CONCURRENCY: "40" })).toBe(40);
+    expect(concurrency("engine", { EDX__WORKER__CONCURRENCY: "40", EDX_ENGINE__WORKER__CONCURRENCY: "50" })).toBe(50);
+    // another service's overrides do not apply
+    expect(concurrency("api", { EDX__WORKER__CONCURRENCY: "40", EDX_ENGINE__WORKER__CONCURRENCY: "50" })).toBe(40);
+  });
+
+  test("should merge objects key by key and replace arrays", () => {
+    const config = loadConfig(defaults, "engine", {
+      ...base,
+      CONFIG_FILE: configFile({ WORKER: { CONCURRENCY: 20 } }),
+      EDX__ROUTING__INTERMEDIATE_TOKENS: '["USDC"]',
+    });
+    expect(config.WORKER).toEqual({ ...defaults.WORKER, CONCURRENCY: 20 });
+    expect(config.ROUTING.INTERMEDIATE_TOKENS).toEqual(["USDC"]);
+  });
+
+  test("should match env segments to settings ignoring case and keep string settings as strings", () => {
+    const config = loadConfig(defaults, "api", {
+      ...base,
+      EDX__REDIS__HOST: "10.0.0.1",
+      EDX__REDIS__PORT: "6380",
+      EDX__QUOTES__SECRET: "12345678901234567890",
+    });
+    expect(config.redis).toEqual({ host: "10.0.0.1", port: 6380 });
+    expect(config.QUOTES.SECRET).toBe("12345678901234567890");
+  });
+
+  test("should read the short env aliases, below the full EDX__ names", () => {
+    const config = loadConfig(defaults, "api", { ...base, REDIS_HOST: "redis", PORT: "4000", LOG_LEVEL: "debug" });
+    expect(config.redis.host).toBe("redis");
+    expect(config.API.PORT).toBe(4000);
+    expect(config.LOG.LEVEL).toBe("debug");
+
+    expect(loadConfig(defaults, "api", { ...base, PORT: "4000", EDX__API__PORT: "5000" }).API.PORT).toBe(5000);
+  });
+
+  test("should reject unknown keys from a file or env vars with their path", () => {
+    const file = configFile({ WORKER: { CONCURENCY: 20 } });
+    expect(() => loadConfig(defaults, "api", { ...base, CONFIG_FILE: file })).toThrow(ConfigError);
+    expect(() => loadConfig(defaults, "api", { ...base, CONFIG_FILE: file })).toThrow(/CONCURENCY[\s\S]*WORKER/);
+    expect(() => loadConfig(defaults, "api", { ...base, EDX__WORKERS__CONCURRENCY: "20" })).toThrow(/WORKERS/);
+  });
+
+  test("should reject invalid values and list every problem", () => {
+    let message = "";
+    try {
+      loadConfig(defaults, "api", { ...base, EDX__API__PORT: "70000", EDX__LOG__LEVEL: "verbose", EDX__MAX_RETRY: "many" });
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigError);
+      message = (err as Error).message;
+    }
+    expect(message).toContain("invalid configuration for api (from defaults, env)");
+    expect(message).toContain("API.PORT");
+    expect(message).toContain("LOG.LEVEL");
+    expect(message).toContain("MAX_RETRY");
+  });
+
+  test("should reject malformed env names, config files and services", () => {
+    expect(() => loadConfig(defaults, "api", { ...base, EDX__WORKER____CONCURRENCY: "20" })).toThrow(/double underscore/);
+    expect(() => loadConfig(defaults, "api", { ...base, CONFIG_FILE: join(dir, "missing.json") })).toThrow(/cannot read config file/);
+    expect(() => loadConfig(defaults, "api", { ...base, CONFIG_FILE: configFile("[1, 2]") })).toThrow(/json object/);
+    expect(() => loadConfig(defaults, "api", { ...base, CONFIG_FILE: configFile({ services: { worker: {} } }) })).toThrow(
+      /unknown service "worker"/
+    );
+    expect(() => readService({ SERVICE: "worker" })).toThrow(ConfigError);
+    expect(readService({})).toBeUndefined();
+  });
+
+  test("should refuse the default quote secret outside development", () => {
+    expect(() => loadConfig(defaults, "api", { NODE_ENV: "production" })).toThrow(/QUOTES\.SECRET/);
+    expect(() => loadConfig(defaults, "api", {})).toThrow(/QUOTES\.SECRET/);
+    expect(loadConfig(defaults, "api", { NODE_ENV: "development" }).QUOTES.SECRET).toBe(defaults.QUOTES.SECRET);
+
+    const config = loadConfig(defaults, "api", { NODE_ENV: "production", QUOTE_SECRET: "a-long-random-production-secret" });
+    expect(config.QUOTES.SECRET).toBe("a-long-random-production-secret");
+  });
+});
@@ -0,0 +1,27 @@
+import { MockMarket } from "../engine/market.js";
+
+// a quote and a few swaps in both directions, so pool creation and background flow both draw from the seed
+const trade = (market: MockMarket) => [
+  market.quote("raydium", 5_000_000, "SOL", "USDC", 10),
+  market.swap("raydium", 5_000_000, 0.003, "SOL", "USDC", 10),
+  market.swap("raydium", 5_000_000, 0.003, "USDC", "SOL", 2000),
+  market.quote("meteora", 3_000_000, "ETH", "USDT", 1),
+  market.swap("meteora", 3_000_000, 0.002, "ETH", "USDT", 1),
+];
+
+describe("MockMarket", () => {
+  test("should produce the same quotes and swaps from the same seed", () => {
+    expect(trade(new MockMarket(7))).toEqual(trade(new MockMarket(7)));
+  });
+
+  // the quote is before fees, dexHandler nets it down, and the swap has to pay that same net amount
+  test("should pay the swap output net of the dex fee", () => {
+    const gross = new MockMarket(7).swap("raydium", 5_000_000, 0, "SOL", "USDC", 10);
+    const net = new MockMarket(7).swap("raydium", 5_000_000, 0.003, "SOL", "USDC", 10);
+    expect(net).toBeCloseTo(gross * (1 - 0.003), 9);
+  });
+
+  test("should price differently from a different seed", () => {
+    expect(trade(new MockMarket(7))).not.toEqual(trade(new MockMarket(8)));
+  });
+});
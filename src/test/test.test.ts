@@ -1,10 +1,16 @@
 import supertest from "supertest";
 import WebSocket from "ws";
+import http from "http";
 import type { SwapParams } from "../lib/types.js";
 
 const request = supertest;
 
 const API_URL = "http://localhost:3000";
+// the suite submits bursts of orders, create its account with room under the rate limits:
+// `npm run account:create -- test --burst 100 --per-second 50 --max-in-flight 200`
+const auth = { "x-api-key": process.env.API_KEY ?? "" };
+// an account that runs into its limits, `npm run account:create -- limited --burst 2 --per-second 0.2 --max-in-flight 1`
+const limitedAuth = { "x-api-key": process.env.LIMITED_API_KEY ?? "" };
 
 describe("DEX Engine API Tests", () => {
   const testCases: SwapParams[] = [
@@ -13,9 +19,16 @@ describe("DEX Engine API Tests", () => {
     { tokenIn: "SOL", tokenOut: "USDC", amount: 10 },
   ];
 
+  // every order reserves its tokenIn, so fund the test account first
+  beforeAll(async () => {
+    for (const token of ["SOL", "USDC", "USDT", "BTC", "ETH"]) {
+      await request(API_URL).post("/balances/deposit").set(auth).send({ token, amount: 1_000_000 }).expect(200);
+    }
+  });
+
   test("should execute valid swap orders", async () => {
     for (const order of testCases) {
-      const response = await request(API_URL).post("/execute-order").send(order).expect(200);
+      const response = await request(API_URL).post("/execute-order").set(auth).send(order).expect(200);
 
       expect(response.body).toHaveProperty("orderId");
       expect(response.body).toHaveProperty("status");
@@ -23,7 +36,7 @@ describe("DEX Engine API Tests", () => {
   });
 
   test("should handle concurrent orders", async () => {
-    const promises = testCases.map((order) => request(API_URL).post("/execute-order").send(order));
+    const promises = testCases.map((order) => request(API_URL).post("/execute-order").set(auth).send(order));
 
     const responses = await Promise.all(promises);
     responses.forEach((res) => {
@@ -40,20 +53,140 @@ describe("DEX Engine API Tests", () => {
     ];
 
     for (const order of invalidCases) {
-      await request(API_URL).post("/execute-order").send(order).expect(400);
+      await request(API_URL).post("/execute-order").set(auth).send(order).expect(400);
+    }
+  });
+
+  test("should accept valid limit orders", async () => {
+    const response = await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit", limitPrice: 150 })
+      .expect(200);
+
+    expect(response.body).toHaveProperty("orderId");
+    expect(response.body).toHaveProperty("status");
+  });
+
+  test("should reject invalid limit orders", async () => {
+    const invalidCases = [
+      { tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit" },
+      { tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit", limitPrice: -5 },
+      { tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit", limitPrice: 150, expiresAt: "2020-01-01T00:00:00Z" },
+    ];
+
+    for (const order of invalidCases) {
+      await request(API_URL).post("/execute-order").set(auth).send(order).expect(400);
     }
   });
 
+  test("should validate slippage settings", async () => {
+    await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "ETH", tokenOut: "USDC", amount: 1, slippageBps: 50, minAmountOut: 90 })
+      .expect(200);
+
+    const invalidCases = [
+      { tokenIn: "ETH", tokenOut: "USDC", amount: 1, slippageBps: -1 },
+      { tokenIn: "ETH", tokenOut: "USDC", amount: 1, slippageBps: 10001 },
+      { tokenIn: "ETH", tokenOut: "USDC", amount: 1, minAmountOut: 0 },
+    ];
+
+    for (const order of invalidCases) {
+      await request(API_URL).post("/execute-order").set(auth).send(order).expect(400);
+    }
+  });
+
+  test("should accept split orders", async () => {
+    const response = await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "SOL", tokenOut: "USDC", amount: 500, split: true })
+      .expect(200);
+    expect(response.body).toHaveProperty("orderId");
+
+    await request(API_URL).post("/execute-order").set(auth).send({ tokenIn: "SOL", tokenOut: "USDC", amount: 500, split: "yes" }).expect(400);
+  });
+
+  test("should accept orders that ask for a fresh quote", async () => {
+    const response = await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "SOL", tokenOut: "USDC", amount: 5, freshQuote: true })
+      .expect(200);
+    const order = await request(API_URL).get(`/orders/${response.body.orderId}`).set(auth).expect(200);
+    expect(order.body.order.freshQuote).toBe(true);
+
+    await request(API_URL).post("/execute-order").set(auth).send({ tokenIn: "SOL", tokenOut: "USDC", amount: 5, freshQuote: "yes" }).expect(400);
+  });
+
+  test("should return the original order for a repeated Idempotency-Key", async () => {
+    const key = `test-${Date.now()}-${Math.random()}`;
+    const first = await request(API_URL).post("/execute-order").set(auth).set("Idempotency-Key", key).send(testCases[0]).expect(200);
+    const repeat = await request(API_URL).post("/execute-order").set(auth).set("Idempotency-Key", key).send(testCases[0]).expect(200);
+
+    expect(repeat.body.orderId).toBe(first.body.orderId);
+
+    await request(API_URL).post("/execute-order").set(auth).set("Idempotency-Key", key).send(testCases[1]).expect(409);
+  });
+
+  test("should tag an order with the correlation id of the request that placed it", async () => {
+    const correlationId = `test-${Date.now()}`;
+    const created = await request(API_URL)
+      .post("/execute-order").set(auth).set("X-Correlation-Id", correlationId)
+      .send(testCases[0])
+      .expect(200);
+    expect(created.headers["x-correlation-id"]).toBe(correlationId);
+    expect(created.body.correlationId).toBe(correlationId);
+
+    const order = await request(API_URL).get(`/orders/${created.body.orderId}`).set(auth).expect(200);
+    expect(order.body.order.correlationId).toBe(correlationId);
+
+    // an unusable header is replaced with a fresh id
+    const generated = await request(API_URL).post("/execute-order").set(auth).set("X-Correlation-Id", "not valid!").send(testCases[0]).expect(200);
+    expect(generated.body.correlationId).not.toBe("not valid!");
+    expect(generated.headers["x-correlation-id"]).toBe(generated.body.correlationId);
+  });
+
+  test("should return an order by id", async () => {
+    const created = await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    const { orderId } = created.body;
+
+    const response = await request(API_URL).get(`/orders/${orderId}`).set(auth).expect(200);
+    expect(response.body.order).toHaveProperty("id", orderId);
+    expect(response.body.order).toHaveProperty("status");
+    expect(response.body.order).toHaveProperty("createdAt");
+    expect(response.body.order).toHaveProperty("fills");
+
+    await request(API_URL).get("/orders/00000000-0000-0000-0000-000000000000").set(auth).expect(404);
+  });
+
+  test("should list orders with filters and cursor pagination", async () => {
+    await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+
+    const firstPage = await request(API_URL).get("/orders").set(auth).query({ tokenIn: "ETH", tokenOut: "USDC", limit: 1 }).expect(200);
+    expect(firstPage.body.orders).toHaveLength(1);
+    expect(firstPage.body.nextCursor).toBeTruthy();
+
+    const secondPage = await request(API_URL)
+      .get("/orders").set(auth)
+      .query({ tokenIn: "ETH", tokenOut: "USDC", limit: 1, cursor: firstPage.body.nextCursor })
+      .expect(200);
+    expect(secondPage.body.orders).toHaveLength(1);
+    expect(secondPage.body.orders[0].id).not.toBe(firstPage.body.orders[0].id);
+
+    await request(API_URL).get("/orders").set(auth).query({ limit: 0 }).expect(400);
+    await request(API_URL).get("/orders").set(auth).query({ status: "confimed" }).expect(400);
+  });
+
   test("should receive WebSocket messages for order updates", (done) => {
     const order = testCases[0];
     const receivedMessages: string[] = [];
 
     request(API_URL)
-      .post("/execute-order")
+      .post("/execute-order").set(auth)
       .send(order)
       .then((res) => {
         const { orderId } = res.body;
-        const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`);
+        const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`, { headers: auth });
 
         ws.on("open", () => {
           console.log(`WebSocket connected for order: ${orderId}`);
@@ -96,6 +229,258 @@ describe("DEX Engine API Tests", () => {
       .catch(done);
   });
 
+  test("should cancel a watching limit order", async () => {
+    const created = await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit", limitPrice: 1000000 })
+      .expect(200);
+    const { orderId } = created.body;
+
+    const response = await request(API_URL).post(`/orders/${orderId}/cancel`).set(auth);
+    expect([200, 202]).toContain(response.status);
+    expect(response.body).toHaveProperty("orderId", orderId);
+
+    // give the engine time to reach a stage boundary if it had already picked the order up
+    await new Promise((resolve) => setTimeout(resolve, 4000));
+    const order = await request(API_URL).get(`/orders/${orderId}`).set(auth).expect(200);
+    expect(order.body.order.status).toBe("cancelled");
+
+    await request(API_URL).post(`/orders/${orderId}/cancel`).set(auth).expect(409);
+    await request(API_URL).post("/orders/00000000-0000-0000-0000-000000000000/cancel").set(auth).expect(404);
+  });
+
+  test("should replay order history to late WebSocket subscribers", async () => {
+    const response = await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    const { orderId } = response.body;
+
+    // connect after the engine has had time to publish a few updates
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+
+    const messages = await new Promise<any[]>((resolve, reject) => {
+      const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`, { headers: auth });
+      const received: any[] = [];
+
+      ws.on("message", (data: Buffer) => {
+        received.push(JSON.parse(data.toString()));
+      });
+      ws.on("error", reject);
+      setTimeout(() => {
+        ws.close();
+        resolve(received);
+      }, 2000);
+    });
+
+    expect(messages[0].type).toBe("snapshot");
+    expect(messages[0].version).toBe(1);
+    expect(messages[0].order.tokenIn).toBe(testCases[0]!.tokenIn);
+
+    const statuses = messages.filter((message) => message.type === "status_changed").map((message) => message.status);
+    expect(statuses[0]).toBe("pending");
+    expect(statuses).toContain("routing");
+
+    // seq only grows so clients can drop repeats
+    const seqs = messages.slice(1).map((message) => message.seq);
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+  });
+
+  test("should follow several orders and a pair over one multiplexed WebSocket", async () => {
+    const [first, second] = await Promise.all(
+      testCases.slice(0, 2).map((order) => request(API_URL).post("/execute-order").set(auth).send(order).expect(200))
+    );
+    const orderIds = [first!.body.orderId, second!.body.orderId];
+
+    const messages = await new Promise<any[]>((resolve, reject) => {
+      const ws = new WebSocket("ws://localhost:3000/ws", { headers: auth });
+      const received: any[] = [];
+
+      ws.on("open", () => {
+        orderIds.forEach((orderId) => ws.send(JSON.stringify({ type: "subscribe", topic: { kind: "order", orderId } })));
+        ws.send(JSON.stringify({ type: "subscribe", topic: { kind: "pair", tokenIn: "SOL", tokenOut: "USDC" } }));
+        ws.send(JSON.stringify({ type: "ping" }));
+        ws.send("not json");
+      });
+      ws.on("message", (data: Buffer) => {
+        received.push(JSON.parse(data.toString()));
+      });
+      ws.on("error", reject);
+      setTimeout(() => {
+        ws.close();
+        resolve(received);
+      }, 3000);
+    });
+
+    expect(messages.filter((message) => message.type === "subscribed")).toHaveLength(3);
+    expect(messages.some((message) => message.type === "pong")).toBe(true);
+    expect(messages.some((message) => message.type === "error")).toBe(true);
+    orderIds.forEach((orderId) => {
+      expect(messages.some((message) => message.type === "snapshot" && message.orderId === orderId)).toBe(true);
+    });
+  });
+
+  test("should stream order updates over SSE and resume from Last-Event-ID", async () => {
+    const response = await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    const { orderId } = response.body;
+
+    const readStream = (headers: Record<string, string>) =>
+      new Promise<string>((resolve, reject) => {
+        const req = http.get(`${API_URL}/orders/${orderId}/events`, { headers: { ...auth, ...headers } }, (res) => {
+          expect(res.headers["content-type"]).toContain("text/event-stream");
+          let body = "";
+          res.on("data", (chunk) => (body += chunk));
+          setTimeout(() => {
+            resolve(body);
+            req.destroy();
+          }, 2000);
+        });
+        req.on("error", reject);
+      });
+
+    const full = await readStream({});
+    expect(full).toContain("event: snapshot");
+    expect(full).toContain("event: status_changed");
+
+    const ids = [...full.matchAll(/^id: (\d+)$/gm)].map((match) => Number(match[1]));
+    const resumed = await readStream({ "Last-Event-ID": String(ids[0]) });
+    expect(resumed).not.toContain("event: snapshot");
+    expect(resumed).not.toContain(`id: ${ids[0]}\n`);
+
+    await request(API_URL).get("/orders/00000000-0000-0000-0000-000000000000/events").set(auth).expect(404);
+  });
+
+  test("should long-poll for the next status change", async () => {
+    const response = await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    const { orderId } = response.body;
+
+    // the first poll returns the history so far
+    const first = await request(API_URL).get(`/orders/${orderId}/events/poll`).set(auth).expect(200);
+    expect(first.body.updates[0].status).toBe("pending");
+
+    const next = await request(API_URL)
+      .get(`/orders/${orderId}/events/poll?after=${first.body.lastSeq}&timeout=10000`).set(auth)
+      .expect(200);
+    next.body.updates.forEach((update: any) => expect(update.seq).toBeGreaterThan(first.body.lastSeq));
+
+    await request(API_URL).get(`/orders/${orderId}/events/poll?timeout=5`).set(auth).expect(400);
+  });
+
+  test("should reject requests without a valid API key", async () => {
+    await request(API_URL).post("/execute-order").send(testCases[0]).expect(401);
+    await request(API_URL).get("/orders").set("x-api-key", "edx_not-a-real-key").expect(401);
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      const ws = new WebSocket("ws://localhost:3000/ws");
+      ws.on("unexpected-response", (_req, res) => resolve(res.statusCode));
+      ws.on("open", () => {
+        ws.close();
+        resolve(undefined);
+      });
+      ws.on("error", () => {});
+    });
+    expect(status).toBe(401);
+  });
+
+  test("should answer 429 once an account runs out of tokens or unfinished orders", async () => {
+    await request(API_URL).post("/balances/deposit").set(limitedAuth).send({ token: "SOL", amount: 1000 }).expect(200);
+    // parked until cancelled, so it keeps the account's only in-flight slot
+    const parked = { tokenIn: "SOL", tokenOut: "USDC", amount: 1, orderType: "limit", limitPrice: 1000000 };
+    const key = `limited-${Date.now()}`;
+
+    const first = await request(API_URL).post("/execute-order").set(limitedAuth).set("Idempotency-Key", key).send(parked).expect(200);
+    const capped = await request(API_URL).post("/execute-order").set(limitedAuth).send(parked).expect(429);
+    expect(capped.body.message).toContain("unfinished orders");
+    expect(capped.headers["retry-after"]).toBeDefined();
+
+    const burst = await Promise.all(
+      Array.from({ length: 3 }, () => request(API_URL).post("/execute-order").set(limitedAuth).send(parked))
+    );
+    burst.forEach((res) => expect(res.status).toBe(429));
+    const throttled = burst.find((res) => res.body.message === "Too many orders, slow down");
+    expect(throttled?.headers["retry-after"]).toBeDefined();
+
+    // neither an invalid order nor a retry of an existing one is refused for the empty bucket
+    await request(API_URL).post("/execute-order").set(limitedAuth).send({ ...parked, amount: -1 }).expect(400);
+    const retried = await request(API_URL).post("/execute-order").set(limitedAuth).set("Idempotency-Key", key).send(parked).expect(200);
+    expect(retried.body.orderId).toBe(first.body.orderId);
+
+    const cancelled = await request(API_URL).post(`/orders/${first.body.orderId}/cancel`).set(limitedAuth);
+    expect([200, 202]).toContain(cancelled.status);
+  });
+
+  test("should rate limit quotes per account", async () => {
+    const responses = await Promise.all(
+      Array.from({ length: 3 }, () => request(API_URL).post("/quote").set(limitedAuth).send(testCases[2]))
+    );
+    const throttled = responses.filter((res) => res.status === 429);
+    expect(throttled.length).toBeGreaterThan(0);
+    expect(throttled[0]!.body.message).toBe("Too many quotes, slow down");
+    expect(throttled[0]!.headers["retry-after"]).toBeDefined();
+  });
+
+  test("should refuse admin routes to accounts that are not admins", async () => {
+    await request(API_URL).get("/admin/dexes").set(auth).expect(403);
+    await request(API_URL).get("/admin/dexes").expect(401);
+    await request(API_URL).get("/admin/dead-letters").set(auth).expect(403);
+    await request(API_URL).post("/admin/dead-letters/00000000-0000-0000-0000-000000000000/replay").set(auth).expect(403);
+  });
+
+  test("should serve health checks and metrics without an API key", async () => {
+    const health = await request(API_URL).get("/healthz").expect(200);
+    expect(health.body.checks).toEqual({ postgres: "ok", redis: "ok" });
+    const ready = await request(API_URL).get("/readyz").expect(200);
+    expect(ready.body.status).toBe("ok");
+
+    const metrics = await request(API_URL).get("/metrics").expect(200);
+    expect(metrics.text).toContain("edx_orders");
+    expect(metrics.text).toContain("edx_order_stage_latency_seconds");
+  });
+
+  test("should reserve funds for an order and refuse orders the account cannot pay for", async () => {
+    const before = await request(API_URL).get("/balances").set(auth).expect(200);
+    const eth = (body: any) => body.balances.find((balance: any) => balance.token === "ETH");
+
+    const { body } = await request(API_URL).post("/execute-order").set(auth).send(testCases[0]).expect(200);
+    const after = await request(API_URL).get("/balances").set(auth).expect(200);
+    expect(eth(after.body).available).toBeLessThanOrEqual(eth(before.body).available - testCases[0]!.amount);
+
+    // the reservation is a balanced pair of ledger entries
+    const ledger = await request(API_URL).get(`/balances/ledger?orderId=${body.orderId}`).set(auth).expect(200);
+    const reserve = ledger.body.entries.filter((entry: any) => entry.kind === "reserve");
+    expect(reserve.reduce((sum: number, entry: any) => sum + entry.amount, 0)).toBeCloseTo(0);
+
+    await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ tokenIn: "ETH", tokenOut: "USDC", amount: 1_000_000_000 })
+      .expect(422);
+    await request(API_URL).post("/balances/deposit").set(auth).send({ token: "DOGE", amount: 1 }).expect(400);
+  });
+
+  test("should quote every dex and execute an order against a signed quote", async () => {
+    const quote = await request(API_URL).post("/quote").set(auth).send(testCases[2]).expect(200);
+    expect(quote.body.quoteId).toEqual(expect.any(String));
+    expect(quote.body.route.amountOut).toBeGreaterThan(0);
+    expect(quote.body.quotes.length).toBeGreaterThan(1);
+    for (const dexQuote of quote.body.quotes) {
+      expect(dexQuote.amountOut).toBeCloseTo(dexQuote.price * (1 - dexQuote.fee));
+    }
+
+    const { body } = await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ ...testCases[2], quoteId: quote.body.quoteId })
+      .expect(200);
+    const order = await request(API_URL).get(`/orders/${body.orderId}`).set(auth).expect(200);
+    expect(order.body.order.quoteId).toEqual(expect.any(String));
+
+    // a quote is only good for the order it was issued for, and only as signed
+    await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ ...testCases[2], amount: 11, quoteId: quote.body.quoteId })
+      .expect(400);
+    await request(API_URL)
+      .post("/execute-order").set(auth)
+      .send({ ...testCases[2], quoteId: `${quote.body.quoteId}x` })
+      .expect(400);
+  });
+
   describe("Queue Testing", () => {
     test("should process multiple orders in queue sequentially", async () => {
       const queueOrders: SwapParams[] = [
@@ -111,7 +496,7 @@ describe("DEX Engine API Tests", () => {
 
       // Submit all orders rapidly to queue them
       for (const order of queueOrders) {
-        const response = await request(API_URL).post("/execute-order").send(order).expect(200);
+        const response = await request(API_URL).post("/execute-order").set(auth).send(order).expect(200);
 
         orderIds.push(response.body.orderId);
         expect(response.body).toHaveProperty("orderId");
@@ -133,7 +518,7 @@ describe("DEX Engine API Tests", () => {
           amount: 0.1 + i * 0.1,
         }));
 
-      const promises = burstOrders.map((order) => request(API_URL).post("/execute-order").send(order));
+      const promises = burstOrders.map((order) => request(API_URL).post("/execute-order").set(auth).send(order));
 
       const responses = await Promise.all(promises);
 
@@ -156,13 +541,13 @@ describe("DEX Engine API Tests", () => {
       const orderResults: Array<{ orderId: string; messages: string[] }> = [];
 
       for (const order of queueOrders) {
-        const response = await request(API_URL).post("/execute-order").send(order).expect(200);
+        const response = await request(API_URL).post("/execute-order").set(auth).send(order).expect(200);
 
         const orderId = response.body.orderId;
 
         // Test WebSocket messages for each queued order
         const messages = await new Promise<string[]>((resolve, reject) => {
-          const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`);
+          const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`, { headers: auth });
           const receivedMessages: string[] = [];
           const timeout = setTimeout(() => {
             ws.close();
@@ -214,7 +599,7 @@ describe("DEX Engine API Tests", () => {
       ];
 
       const results = await Promise.allSettled(
-        mixedOrders.map((order) => request(API_URL).post("/execute-order").send(order))
+        mixedOrders.map((order) => request(API_URL).post("/execute-order").set(auth).send(order))
       );
 
       // All requests should be fulfilled (API responds to all)
@@ -242,7 +627,7 @@ describe("DEX Engine API Tests", () => {
         .filter((order) => order.tokenIn !== order.tokenOut); // Remove same-token swaps
 
       const startTime = Date.now();
-      const promises = largeQueue.map((order) => request(API_URL).post("/execute-order").send(order));
+      const promises = largeQueue.map((order) => request(API_URL).post("/execute-order").set(auth).send(order));
 
       const responses = await Promise.all(promises);
       const endTime = Date.now();
@@ -260,7 +645,7 @@ describe("DEX Engine API Tests", () => {
     test("should receive detailed WebSocket messages for queue processing", async () => {
       const order: SwapParams = { tokenIn: "ETH", tokenOut: "USDC", amount: 1.5 };
 
-      const response = await request(API_URL).post("/execute-order").send(order).expect(200);
+      const response = await request(API_URL).post("/execute-order").set(auth).send(order).expect(200);
 
       const { orderId } = response.body;
 
@@ -269,7 +654,7 @@ describe("DEX Engine API Tests", () => {
         parsedMessages: any[];
         hasStatusUpdates: boolean;
       }>((resolve, reject) => {
-        const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`);
+        const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`, { headers: auth });
         const messages: string[] = [];
         const parsedMessages: any[] = [];
         let hasStatusUpdates = false;
@@ -334,12 +719,12 @@ describe("DEX Engine API Tests", () => {
       ];
 
       const orderPromises = orders.map(async (order) => {
-        const response = await request(API_URL).post("/execute-order").send(order).expect(200);
+        const response = await request(API_URL).post("/execute-order").set(auth).send(order).expect(200);
 
         const { orderId } = response.body;
 
         return new Promise<{ orderId: string; messageCount: number }>((resolve) => {
-          const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`);
+          const ws = new WebSocket(`ws://localhost:3000/ws/${orderId}`, { headers: auth });
           let messageCount = 0;
 
           ws.on("message", (data: Buffer) => {